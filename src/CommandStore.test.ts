@@ -0,0 +1,155 @@
+import { CommandStore } from './CommandStore';
+import { Command } from './types';
+
+// Commands operating on a mutable list, as a stand-in for non-cloneable state
+const createList = () => {
+  const items: string[] = [];
+
+  const add = (item: string, label?: string): Command => ({
+    do: () => {
+      items.push(item);
+    },
+    undo: () => {
+      items.splice(items.lastIndexOf(item), 1);
+    },
+    label,
+  });
+
+  return { items, add };
+};
+
+describe('CommandStore', () => {
+  it('should run commands on execute, undo and redo', () => {
+    const { items, add } = createList();
+    const store = new CommandStore();
+
+    store.execute(add('a'));
+    store.execute(add('b'));
+    store.execute(add('c'));
+
+    expect(items).toEqual(['a', 'b', 'c']);
+
+    store.undo(2);
+
+    expect(items).toEqual(['a']);
+    expect(store.canRedo).toBe(true);
+
+    store.redo();
+
+    expect(items).toEqual(['a', 'b']);
+    expect(store.getSnapshot().past).toHaveLength(2);
+    expect(store.getSnapshot().future).toHaveLength(1);
+  });
+
+  it('should drop the future and respect maxHistorySize', () => {
+    const { items, add } = createList();
+    const store = new CommandStore({ maxHistorySize: 2 });
+
+    store.execute(add('a', 'A'));
+    store.execute(add('b', 'B'));
+    store.execute(add('c', 'C'));
+    store.undo();
+    store.execute(add('d', 'D'));
+
+    expect(items).toEqual(['a', 'b', 'd']);
+    expect(store.getSnapshot().past.map((command) => command.label)).toEqual([
+      'B',
+      'D',
+    ]);
+    expect(store.canRedo).toBe(false);
+  });
+
+  it('should record a batch as one composite command', () => {
+    const { items, add } = createList();
+    const onExecute = jest.fn();
+    const store = new CommandStore({ onExecute });
+
+    store.withBatch(() => {
+      store.execute(add('a', 'Add a'));
+      store.execute(add('b'));
+    });
+
+    expect(onExecute).toHaveBeenCalledTimes(1);
+    expect(store.getSnapshot().past).toHaveLength(1);
+    expect(store.getSnapshot().past[0].label).toBe('Add a');
+
+    store.undo();
+
+    expect(items).toEqual([]);
+
+    store.redo();
+
+    expect(items).toEqual(['a', 'b']);
+  });
+
+  it('should merge consecutive commands with merge', () => {
+    let text = '';
+
+    interface TypeCommand extends Command {
+      chars: string;
+    }
+
+    const type = (chars: string): TypeCommand => ({
+      chars,
+      label: 'Typing',
+      do: () => {
+        text += chars;
+      },
+      undo: () => {
+        text = text.slice(0, -chars.length);
+      },
+      merge: (next) =>
+        'chars' in next ? type(chars + (next as TypeCommand).chars) : undefined,
+    });
+    const store = new CommandStore();
+
+    store.execute(type('a'));
+    store.execute(type('b'));
+
+    expect(text).toBe('ab');
+    expect(store.getSnapshot().past).toHaveLength(1);
+
+    store.undo();
+    store.redo();
+    store.execute(type('c'));
+
+    expect(store.getSnapshot().past).toHaveLength(2);
+
+    store.undo(2);
+
+    expect(text).toBe('');
+  });
+
+  it('should keep commands undone before an error', () => {
+    const { items, add } = createList();
+    const store = new CommandStore();
+    const failing: Command = {
+      do: () => undefined,
+      undo: () => {
+        throw new Error('cannot undo');
+      },
+    };
+
+    store.execute(failing);
+    store.execute(add('a'));
+
+    expect(() => store.undo(2)).toThrow('cannot undo');
+    expect(items).toEqual([]);
+    expect(store.getSnapshot().past).toEqual([failing]);
+    expect(store.getSnapshot().future).toHaveLength(1);
+  });
+
+  it('should not record a command whose do throws', () => {
+    const store = new CommandStore();
+
+    expect(() =>
+      store.execute({
+        do: () => {
+          throw new Error('failed');
+        },
+        undo: () => undefined,
+      })
+    ).toThrow('failed');
+    expect(store.canUndo).toBe(false);
+  });
+});
@@ -0,0 +1,250 @@
+import {
+  Command,
+  CommandBatchOptions,
+  CommandHistoryState,
+  CommandOptions,
+} from './types';
+import { clampSteps } from './utils';
+
+type Listener = () => void;
+
+const createCompositeCommand = (
+  commands: Command[],
+  label?: string
+): Command => {
+  let lastLabel: string | undefined;
+
+  commands.forEach((command) => {
+    if (command.label !== undefined) lastLabel = command.label;
+  });
+
+  return {
+    do: () => commands.forEach((command) => command.do()),
+    undo: () => {
+      for (let i = commands.length - 1; i >= 0; i--) {
+        commands[i].undo();
+      }
+    },
+    label: label === undefined ? lastLabel : label,
+  };
+};
+
+/**
+ * History of reversible commands, for state that cannot be cloned or
+ * serialized. Commands are run by the store, which only keeps track of what
+ * can be undone or redone. Exposes the same `subscribe`/`getSnapshot` pair as
+ * `UndoRedoStore` and is wrapped by `useUndoRedoCommands` in React.
+ */
+export class CommandStore {
+  private options: CommandOptions;
+  private state: CommandHistoryState = {
+    past: [],
+    future: [],
+    isBatching: false,
+  };
+  private listeners = new Set<Listener>();
+  private batchDepth = 0;
+  private batchCommands: Command[] = [];
+  private lastExecuteState: CommandHistoryState | null = null;
+
+  constructor(options: CommandOptions = {}) {
+    this.options = options;
+  }
+
+  setOptions = (options: CommandOptions): void => {
+    this.options = options;
+  };
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): CommandHistoryState => {
+    return this.state;
+  };
+
+  get canUndo(): boolean {
+    return this.state.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.state.future.length > 0;
+  }
+
+  /**
+   * Runs `command.do()` and records the command. When `do` throws, nothing is
+   * recorded. Inside a batch the command becomes part of the composite
+   * command recorded by `endBatch`.
+   */
+  execute = (command: Command): void => {
+    command.do();
+
+    if (this.batchDepth > 0) {
+      this.batchCommands.push(command);
+
+      return;
+    }
+
+    this.commit(this.pushCommand(this.state, command));
+    this.lastExecuteState = this.state;
+
+    if (this.options.onExecute) {
+      this.options.onExecute(command);
+    }
+  };
+
+  /**
+   * Undoes `steps` commands, newest first. If a command throws, the commands
+   * undone before it are moved to `future` and the error is rethrown. Does
+   * nothing while a batch is open.
+   */
+  undo = (steps?: number): void => {
+    const prev = this.state;
+    const count = clampSteps(steps, prev.past.length);
+
+    if (count === 0 || this.batchDepth > 0) return;
+
+    const undone: Command[] = [];
+
+    try {
+      for (let i = prev.past.length - 1; undone.length < count; i--) {
+        prev.past[i].undo();
+        undone.unshift(prev.past[i]);
+      }
+    } finally {
+      if (undone.length > 0) {
+        this.commit({
+          ...prev,
+          past: prev.past.slice(0, prev.past.length - undone.length),
+          future: [...undone, ...prev.future],
+        });
+      }
+    }
+
+    if (this.options.onUndo) {
+      this.options.onUndo(undone.slice().reverse());
+    }
+  };
+
+  /** Redoes `steps` commands, in the order they were executed. */
+  redo = (steps?: number): void => {
+    const prev = this.state;
+    const count = clampSteps(steps, prev.future.length);
+
+    if (count === 0 || this.batchDepth > 0) return;
+
+    const redone: Command[] = [];
+
+    try {
+      for (let i = 0; i < count; i++) {
+        prev.future[i].do();
+        redone.push(prev.future[i]);
+      }
+    } finally {
+      if (redone.length > 0) {
+        this.commit({
+          ...prev,
+          past: [...prev.past, ...redone],
+          future: prev.future.slice(redone.length),
+        });
+      }
+    }
+
+    if (this.options.onRedo) {
+      this.options.onRedo(redone);
+    }
+  };
+
+  /** Forgets all commands without running them. */
+  clear = (): void => {
+    this.batchDepth = 0;
+    this.batchCommands = [];
+    this.commit({ past: [], future: [], isBatching: false });
+  };
+
+  startBatch = (): void => {
+    this.batchDepth += 1;
+
+    if (this.batchDepth === 1) {
+      this.commit({ ...this.state, isBatching: true });
+    }
+  };
+
+  endBatch = (options: CommandBatchOptions = {}): void => {
+    if (this.batchDepth === 0) return;
+
+    this.batchDepth -= 1;
+
+    if (this.batchDepth > 0) return;
+
+    const commands = this.batchCommands;
+    const prev = { ...this.state, isBatching: false };
+
+    this.batchCommands = [];
+
+    if (commands.length === 0) {
+      this.commit(prev);
+
+      return;
+    }
+
+    const command = createCompositeCommand(commands, options.label);
+
+    this.commit(this.pushCommand(prev, command));
+
+    if (this.options.onExecute) {
+      this.options.onExecute(command);
+    }
+  };
+
+  /**
+   * Runs `fn` inside a batch. The batch is closed even when `fn` throws, and
+   * commands executed before the error are kept as a single composite command.
+   */
+  withBatch = <R>(fn: () => R, options?: CommandBatchOptions): R => {
+    this.startBatch();
+
+    try {
+      return fn();
+    } finally {
+      this.endBatch(options);
+    }
+  };
+
+  private commit(state: CommandHistoryState): void {
+    this.state = state;
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Appends a command and clears the future. A command directly following
+   * another `execute` may be merged into the previous one.
+   */
+  private pushCommand(
+    prev: CommandHistoryState,
+    command: Command
+  ): CommandHistoryState {
+    const { maxHistorySize } = this.options;
+    const last = prev.past[prev.past.length - 1];
+    const merged =
+      last && last.merge && prev === this.lastExecuteState
+        ? last.merge(command)
+        : undefined;
+    const past = merged
+      ? [...prev.past.slice(0, -1), merged]
+      : [...prev.past, command];
+    const overflow = maxHistorySize
+      ? Math.max(0, past.length - maxHistorySize)
+      : 0;
+
+    return {
+      past: past.slice(overflow),
+      future: [],
+      isBatching: false,
+    };
+  }
+}
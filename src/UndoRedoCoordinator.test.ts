@@ -0,0 +1,111 @@
+import { UndoRedoCoordinator } from './UndoRedoCoordinator';
+import { UndoRedoStore } from './UndoRedoStore';
+
+const setup = () => {
+  const coordinator = new UndoRedoCoordinator();
+  const a = new UndoRedoStore<string>('a0');
+  const b = new UndoRedoStore<string>('b0');
+
+  coordinator.register(a);
+  coordinator.register(b);
+
+  return { coordinator, a, b };
+};
+
+describe('UndoRedoCoordinator', () => {
+  it('should undo and redo the most recent change across scopes', () => {
+    const { coordinator, a, b } = setup();
+
+    a.set('a1');
+    b.set('b1');
+    a.set('a2');
+
+    coordinator.undo();
+
+    expect(a.getSnapshot().present).toBe('a1');
+
+    coordinator.undo();
+
+    expect(b.getSnapshot().present).toBe('b0');
+    expect(a.getSnapshot().present).toBe('a1');
+
+    coordinator.redo(2);
+
+    expect(b.getSnapshot().present).toBe('b1');
+    expect(a.getSnapshot().present).toBe('a2');
+    expect(coordinator.canRedo).toBe(false);
+  });
+
+  it('should follow local undo and redo', () => {
+    const { coordinator, a, b } = setup();
+
+    a.set('a1');
+    b.set('b1');
+    a.undo();
+
+    expect(coordinator.getSnapshot().past).toEqual([b]);
+    expect(coordinator.getSnapshot().future).toEqual([a]);
+
+    coordinator.undo();
+
+    expect(b.getSnapshot().present).toBe('b0');
+    expect(coordinator.getSnapshot().future).toEqual([b, a]);
+
+    a.redo();
+    coordinator.redo();
+
+    expect(b.getSnapshot().present).toBe('b1');
+    expect(coordinator.getSnapshot().past).toEqual([a, b]);
+  });
+
+  it('should clear the global future on a new change', () => {
+    const { coordinator, a, b } = setup();
+
+    a.set('a1');
+    coordinator.undo();
+    b.set('b1');
+
+    expect(coordinator.canRedo).toBe(false);
+    expect(a.canRedo).toBe(true);
+  });
+
+  it('should drop entries trimmed, reset or unregistered', () => {
+    const coordinator = new UndoRedoCoordinator();
+    const a = new UndoRedoStore<number>(0, { maxHistorySize: 1 });
+    const b = new UndoRedoStore<number>(0);
+    const unregisterB = coordinator.register(b);
+
+    coordinator.register(a);
+
+    b.set(1);
+    a.set(1);
+    b.set(2);
+    a.set(2);
+
+    expect(coordinator.getSnapshot().past).toEqual([b, b, a]);
+
+    b.reset(10);
+
+    expect(coordinator.getSnapshot().past).toEqual([a]);
+
+    b.set(11);
+    unregisterB();
+
+    expect(coordinator.getSnapshot().past).toEqual([a]);
+
+    b.set(12);
+
+    expect(coordinator.getSnapshot().past).toEqual([a]);
+  });
+
+  it('should not record merged or batched intermediate changes', () => {
+    const { coordinator, a } = setup();
+
+    a.withBatch(() => {
+      a.set('a1');
+      a.set('a2');
+    });
+
+    expect(coordinator.getSnapshot().past).toEqual([a]);
+  });
+});
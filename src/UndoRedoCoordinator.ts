@@ -0,0 +1,213 @@
+import { clampSteps } from './utils';
+
+type Listener = () => void;
+
+/** Transition reported by a scope, see `UndoRedoStore.subscribeActions`. */
+export interface ScopeAction {
+  type: string;
+  steps?: number;
+}
+
+/** History instance that can take part in global undo/redo. */
+export interface UndoRedoScope {
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
+  getSnapshot: () => { past: unknown[]; future: unknown[] };
+  subscribeActions: (listener: (action: ScopeAction) => void) => () => void;
+}
+
+export interface CoordinatorState {
+  /** Scope that recorded each undoable change, oldest first. */
+  past: UndoRedoScope[];
+  /** Scope of each redoable change, the next one first. */
+  future: UndoRedoScope[];
+}
+
+const removeLast = (
+  items: UndoRedoScope[],
+  scope: UndoRedoScope,
+  count: number
+): { rest: UndoRedoScope[]; removed: number } => {
+  const rest = items.slice();
+  let removed = 0;
+
+  for (let i = rest.length - 1; i >= 0 && removed < count; i--) {
+    if (rest[i] === scope) {
+      rest.splice(i, 1);
+      removed += 1;
+    }
+  }
+
+  return { rest, removed };
+};
+
+const removeFirst = (
+  items: UndoRedoScope[],
+  scope: UndoRedoScope,
+  count: number
+): { rest: UndoRedoScope[]; removed: number } => {
+  const { rest, removed } = removeLast(items.slice().reverse(), scope, count);
+
+  return { rest: rest.reverse(), removed };
+};
+
+/**
+ * Keeps one app-wide undo stack over several histories. Every registered
+ * scope reports its transitions, so the coordinator knows which scope changed
+ * last; global undo and redo are forwarded to that scope, which keeps its own
+ * `canUndo`/`canRedo`.
+ */
+export class UndoRedoCoordinator {
+  private state: CoordinatorState = { past: [], future: [] };
+  private listeners = new Set<Listener>();
+  private scopes = new Map<UndoRedoScope, () => void>();
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): CoordinatorState => {
+    return this.state;
+  };
+
+  get canUndo(): boolean {
+    return this.state.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.state.future.length > 0;
+  }
+
+  /** Adds a scope. Returns a function that removes it and its entries. */
+  register = (scope: UndoRedoScope): (() => void) => {
+    if (!this.scopes.has(scope)) {
+      this.scopes.set(
+        scope,
+        scope.subscribeActions((action) => this.handleAction(scope, action))
+      );
+    }
+
+    return () => this.unregister(scope);
+  };
+
+  /** Undoes the most recent changes, whichever scopes they belong to. */
+  undo = (steps?: number): void => {
+    const count = clampSteps(steps, this.state.past.length);
+
+    for (let i = 0; i < count && this.state.past.length > 0; i++) {
+      const { past } = this.state;
+
+      // The scope reports the undo, which moves its entry to `future`
+      past[past.length - 1].undo();
+    }
+  };
+
+  redo = (steps?: number): void => {
+    const count = clampSteps(steps, this.state.future.length);
+
+    for (let i = 0; i < count && this.state.future.length > 0; i++) {
+      this.state.future[0].redo();
+    }
+  };
+
+  private unregister(scope: UndoRedoScope): void {
+    const unsubscribe = this.scopes.get(scope);
+
+    if (!unsubscribe) return;
+
+    unsubscribe();
+    this.scopes.delete(scope);
+    this.commit({
+      past: this.state.past.filter((item) => item !== scope),
+      future: this.state.future.filter((item) => item !== scope),
+    });
+  }
+
+  /**
+   * Local undo moves the latest entry of the scope to the front of `future`,
+   * local redo moves its next entry back, so global and local navigation can
+   * be mixed.
+   */
+  private handleAction(scope: UndoRedoScope, action: ScopeAction): void {
+    const { past, future } = this.state;
+
+    switch (action.type) {
+      case 'set':
+        this.commit(
+          this.prune(scope, {
+            past: [...past, scope],
+            future: [],
+          })
+        );
+        break;
+      case 'undo': {
+        const { rest, removed } = removeLast(past, scope, action.steps || 1);
+
+        this.commit(
+          this.prune(scope, {
+            past: rest,
+            future: [...Array(removed).fill(scope), ...future],
+          })
+        );
+        break;
+      }
+      case 'redo': {
+        const { rest, removed } = removeFirst(future, scope, action.steps || 1);
+
+        this.commit(
+          this.prune(scope, {
+            past: [...past, ...Array(removed).fill(scope)],
+            future: rest,
+          })
+        );
+        break;
+      }
+      case 'merge':
+      case 'replace':
+        break;
+      default:
+        // `reset`, imports and branch switches replace the timeline of the scope
+        this.commit(
+          this.prune(scope, {
+            past: past.filter((item) => item !== scope),
+            future: future.filter((item) => item !== scope),
+          })
+        );
+    }
+  }
+
+  /**
+   * Drops entries the scope no longer has, e.g. after `maxHistorySize`
+   * trimmed its oldest states or another tab replaced its history.
+   */
+  private prune(
+    scope: UndoRedoScope,
+    state: CoordinatorState
+  ): CoordinatorState {
+    const snapshot = scope.getSnapshot();
+    const pastCount = state.past.filter((item) => item === scope).length;
+    const futureCount = state.future.filter((item) => item === scope).length;
+
+    return {
+      past: removeFirst(
+        state.past,
+        scope,
+        Math.max(0, pastCount - snapshot.past.length)
+      ).rest,
+      future: removeLast(
+        state.future,
+        scope,
+        Math.max(0, futureCount - snapshot.future.length)
+      ).rest,
+    };
+  }
+
+  private commit(state: CoordinatorState): void {
+    this.state = state;
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,32 @@
+import { ReactNode, createContext, createElement, useRef } from 'react';
+import { UndoRedoCoordinator } from './UndoRedoCoordinator';
+
+export const UndoRedoContext = createContext<UndoRedoCoordinator | null>(null);
+
+export interface UndoRedoProviderProps {
+  /** Defaults to a coordinator created for the provider. */
+  coordinator?: UndoRedoCoordinator;
+  children?: ReactNode;
+}
+
+/**
+ * Registers every `useUndoRedo` instance rendered below it with one
+ * coordinator, which `useGlobalUndoRedo` controls. A nested provider starts
+ * a separate group.
+ */
+export const UndoRedoProvider = ({
+  coordinator,
+  children,
+}: UndoRedoProviderProps) => {
+  const coordinatorRef = useRef<UndoRedoCoordinator | null>(null);
+
+  if (!coordinatorRef.current) {
+    coordinatorRef.current = coordinator || new UndoRedoCoordinator();
+  }
+
+  return createElement(
+    UndoRedoContext.Provider,
+    { value: coordinator || coordinatorRef.current },
+    children
+  );
+};
@@ -0,0 +1,1045 @@
+import { EntryInfo, HistoryEvent } from './types';
+import { UndoRedoStore } from './UndoRedoStore';
+
+describe('UndoRedoStore', () => {
+  it('should work without React', () => {
+    const store = new UndoRedoStore('initial');
+
+    store.set('state 1');
+    store.set('state 2');
+    store.undo();
+
+    expect(store.getSnapshot().present).toBe('state 1');
+    expect(store.canUndo).toBe(true);
+    expect(store.canRedo).toBe(true);
+
+    store.redo();
+
+    expect(store.getSnapshot().present).toBe('state 2');
+    expect(store.getHistory().past).toEqual(['initial', 'state 1']);
+  });
+
+  it('should notify subscribers on every change', () => {
+    const store = new UndoRedoStore(0);
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.set(1);
+    store.undo();
+    store.redo();
+
+    expect(listener).toHaveBeenCalledTimes(3);
+
+    unsubscribe();
+    store.set(2);
+
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not notify subscribers when value is equal', () => {
+    const store = new UndoRedoStore(0);
+    const listener = jest.fn();
+
+    store.subscribe(listener);
+    store.set(0);
+    store.undo();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should return a new snapshot only when state changes', () => {
+    const store = new UndoRedoStore({ count: 0 });
+    const first = store.getSnapshot();
+
+    expect(store.getSnapshot()).toBe(first);
+
+    store.set({ count: 1 });
+
+    expect(store.getSnapshot()).not.toBe(first);
+    expect(store.getHistory()).toBe(store.getHistory());
+  });
+
+  it('should group batched changes into one entry', () => {
+    const onSet = jest.fn();
+    const store = new UndoRedoStore({ count: 0 }, { onSet });
+
+    store.startBatch();
+    store.set({ count: 1 });
+    store.set({ count: 2 });
+
+    expect(store.getSnapshot().isBatching).toBe(true);
+
+    store.endBatch();
+
+    expect(store.getSnapshot().isBatching).toBe(false);
+    expect(store.getHistory().past).toEqual([{ count: 0 }]);
+    expect(onSet).toHaveBeenCalledTimes(1);
+    expect(onSet).toHaveBeenCalledWith({ count: 0 }, { count: 2 });
+  });
+
+  it('should pass the latest state to withBatch', () => {
+    const store = new UndoRedoStore(1);
+
+    store.set(2);
+
+    const result = store.withBatch((state) => state * 10);
+
+    expect(result).toBe(20);
+  });
+
+  it('should store compressed entries and decode them lazily', () => {
+    const store = new UndoRedoStore({ a: 1 }, { compressHistory: true });
+
+    store.set({ a: 2 });
+
+    expect(store.getSnapshot().past).toEqual(['{"a":1}']);
+    expect(store.getHistory().past[0]).toEqual({ a: 1 });
+  });
+
+  it('should apply compression changes on reset', () => {
+    const store = new UndoRedoStore('a');
+
+    store.setOptions({ compressHistory: true });
+    store.set('b');
+
+    expect(store.getSnapshot().isCompressed).toBe(false);
+
+    store.reset('c');
+    store.set('d');
+
+    expect(store.getSnapshot().isCompressed).toBe(true);
+    expect(store.getHistory().past).toEqual(['c']);
+  });
+});
+
+describe('UndoRedoStore with patch storage', () => {
+  const createDocument = (title: string) => ({
+    title,
+    blocks: Array(50)
+      .fill(0)
+      .map((_, i) => ({ id: i, text: `block-${i}` })),
+  });
+
+  it.each([false, true])(
+    'should store patches and rebuild states (compressed: %s)',
+    (compressHistory) => {
+      const store = new UndoRedoStore(createDocument('v0'), {
+        historyStorage: 'patch',
+        compressHistory,
+      });
+
+      store.set(createDocument('v1'));
+      store.set(createDocument('v2'));
+      store.set(createDocument('v3'));
+
+      const { past } = store.getSnapshot();
+
+      expect(store.getSnapshot().historyStorage).toBe('patch');
+      expect(JSON.stringify(past[0]).length).toBeLessThan(200);
+      expect(store.getHistory().past.map((doc) => doc.title)).toEqual([
+        'v0',
+        'v1',
+        'v2',
+      ]);
+
+      store.undo();
+      store.undo();
+
+      expect(store.getSnapshot().present).toEqual(createDocument('v1'));
+      expect(store.getHistory().past[0]).toEqual(createDocument('v0'));
+      expect(store.getHistory().future.map((doc) => doc.title)).toEqual([
+        'v2',
+        'v3',
+      ]);
+
+      store.redo();
+
+      expect(store.getSnapshot().present).toEqual(createDocument('v2'));
+    }
+  );
+
+  it('should keep patches consistent with batching and maxHistorySize', () => {
+    const store = new UndoRedoStore(
+      { count: 0 },
+      { historyStorage: 'patch', maxHistorySize: 2 }
+    );
+
+    store.set({ count: 1 });
+    store.withBatch(() => {
+      store.set({ count: 2 });
+      store.set({ count: 3 });
+    });
+    store.set({ count: 4 });
+
+    expect(store.getHistory().past).toEqual([{ count: 1 }, { count: 3 }]);
+
+    store.undo();
+    store.undo();
+
+    expect(store.getSnapshot().present).toEqual({ count: 1 });
+    expect(store.canUndo).toBe(false);
+  });
+});
+
+describe('UndoRedoStore with branching', () => {
+  it.each(['snapshot', 'patch'] as const)(
+    'should keep the redo branch when setting after undo (%s)',
+    (historyStorage) => {
+      const store = new UndoRedoStore(
+        { text: '' },
+        { branching: true, historyStorage }
+      );
+
+      store.set({ text: 'a' });
+      store.set({ text: 'ab' });
+      store.set({ text: 'abc' });
+      store.undo(2);
+      store.set({ text: 'ax' });
+
+      expect(store.canRedo).toBe(false);
+
+      const [original, created] = store.getBranches(1);
+
+      expect(store.getBranches(1)).toHaveLength(2);
+      expect(store.getNodeState(original.id)).toEqual({ text: 'ab' });
+      expect(store.getNodeState(created.id)).toEqual({ text: 'ax' });
+      expect(store.getNodeState(3)).toEqual({ text: 'abc' });
+
+      store.switchBranch(3);
+
+      expect(store.getSnapshot().present).toEqual({ text: 'abc' });
+      expect(store.getHistory().past).toEqual([
+        { text: '' },
+        { text: 'a' },
+        { text: 'ab' },
+      ]);
+      expect(store.canRedo).toBe(false);
+
+      store.undo(2);
+
+      expect(store.getSnapshot().present).toEqual({ text: 'a' });
+      expect(store.getHistory().future).toEqual([
+        { text: 'ab' },
+        { text: 'abc' },
+      ]);
+
+      store.switchBranch(created.id);
+
+      expect(store.getSnapshot().present).toEqual({ text: 'ax' });
+      expect(store.getHistory().past).toEqual([{ text: '' }, { text: 'a' }]);
+    }
+  );
+
+  it('should follow the last active child when switching back', () => {
+    const store = new UndoRedoStore('root', { branching: true });
+
+    store.set('a1');
+    store.set('a2');
+    store.undo(2);
+    store.set('b1');
+    store.switchBranch(1);
+
+    expect(store.getSnapshot().present).toBe('a1');
+    expect(store.getHistory().future).toEqual(['a2']);
+  });
+
+  it('should render the tree with the active path', () => {
+    const store = new UndoRedoStore(0, { branching: true });
+
+    store.set(1);
+    store.undo();
+    store.set(2);
+
+    const info = expect.any(Object);
+
+    expect(store.getTree()).toEqual({
+      id: 0,
+      info,
+      isCurrent: false,
+      isOnActivePath: true,
+      children: [
+        { id: 1, info, isCurrent: false, isOnActivePath: false, children: [] },
+        { id: 2, info, isCurrent: true, isOnActivePath: true, children: [] },
+      ],
+    });
+  });
+
+  it('should prune branches of trimmed nodes', () => {
+    const store = new UndoRedoStore(0, { branching: true, maxHistorySize: 2 });
+
+    store.set(1);
+    store.undo();
+    store.set(2);
+    store.set(3);
+    store.set(4);
+
+    expect(store.getTree()?.id).toBe(2);
+    expect(store.getNodeState(1)).toBeUndefined();
+    expect(store.getSnapshot().tree?.detached).toEqual({});
+  });
+
+  it('should not track branches when branching is disabled', () => {
+    const store = new UndoRedoStore(0);
+
+    store.set(1);
+
+    expect(store.getTree()).toBeNull();
+    expect(store.getBranches()).toEqual([]);
+  });
+});
+
+describe('UndoRedoStore entry labels', () => {
+  it('should keep labels on branch nodes', () => {
+    const store = new UndoRedoStore('', { branching: true });
+
+    store.set('a', { label: 'Type a' });
+    store.undo();
+    store.set('b', { label: 'Type b' });
+
+    expect(store.getBranches(0).map((node) => node.info.label)).toEqual([
+      'Type a',
+      'Type b',
+    ]);
+
+    store.switchBranch(1);
+
+    expect(store.getHistory().entries.map((entry) => entry.label)).toEqual([
+      undefined,
+      'Type a',
+    ]);
+  });
+});
+
+describe('UndoRedoStore coalesce', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should update the present node info in branching mode', () => {
+    const store = new UndoRedoStore<string>('', {
+      coalesce: 300,
+      branching: true,
+    });
+
+    store.set('a', { label: 'Type' });
+    store.set('ab');
+    store.undo();
+    store.set('x', { label: 'Replace' });
+    store.set('xy');
+
+    expect(store.getBranches(0).map((node) => node.info.label)).toEqual([
+      'Type',
+      'Replace',
+    ]);
+    expect(store.getNodeState(1)).toBe('ab');
+    expect(store.getSnapshot().present).toBe('xy');
+
+    store.switchBranch(1);
+
+    expect(store.getSnapshot().present).toBe('ab');
+  });
+
+  it('should not merge into an entry recorded by a batch', () => {
+    const store = new UndoRedoStore<number>(0, { coalesce: 300 });
+
+    store.withBatch(() => {
+      store.set(1);
+      store.set(2);
+    });
+    store.set(3);
+    store.set(4);
+
+    expect(store.getHistory().past).toEqual([0, 2]);
+  });
+});
+
+describe('UndoRedoStore maxHistoryBytes', () => {
+  it('should evict the oldest entries over the byte budget', () => {
+    const onEvict = jest.fn();
+    const store = new UndoRedoStore<string>('aaaa', {
+      compressHistory: true,
+      maxHistoryBytes: 30,
+      onEvict,
+    });
+
+    store.set('bbbb', { label: 'B' });
+    store.set('cccc', { label: 'C' });
+
+    // Each entry is a 6 character JSON string, 12 bytes
+    expect(store.getHistory().byteSize).toBe(24);
+    expect(onEvict).not.toHaveBeenCalled();
+
+    store.set('dddd', { label: 'D' });
+
+    expect(store.getHistory().past).toEqual(['bbbb', 'cccc']);
+    expect(store.getHistory().byteSize).toBe(24);
+    expect(onEvict).toHaveBeenCalledTimes(1);
+    expect(onEvict.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ label: undefined }),
+    ]);
+  });
+
+  it('should measure uncompressed entries with estimateSize', () => {
+    const store = new UndoRedoStore<number[]>([], {
+      maxHistoryBytes: 4,
+      estimateSize: (entry) => (entry as number[]).length,
+    });
+
+    store.set([1, 2, 3]);
+    store.set([1, 2]);
+    store.set([1]);
+
+    expect(store.getHistory().past).toEqual([[1, 2]]);
+    expect(store.getHistory().byteSize).toBe(2);
+
+    store.undo();
+
+    expect(store.getHistory().byteSize).toBe(1);
+  });
+
+  it('should estimate plain objects by default', () => {
+    const store = new UndoRedoStore({ text: 'ab' });
+
+    store.set({ text: 'abc' });
+
+    // 'text' key (8 bytes) and 'ab' value (4 bytes)
+    expect(store.getHistory().byteSize).toBe(12);
+  });
+
+  it('should report entries dropped by maxHistorySize', () => {
+    const onEvict = jest.fn();
+    const store = new UndoRedoStore<number>(0, { maxHistorySize: 1, onEvict });
+
+    store.set(1, { label: 'one' });
+    store.withBatch(
+      () => {
+        store.set(2);
+      },
+      { label: 'two' }
+    );
+
+    expect(onEvict).toHaveBeenCalledTimes(1);
+    expect(
+      onEvict.mock.calls[0][0].map((info: { label?: string }) => info.label)
+    ).toEqual([undefined]);
+
+    store.set(3);
+
+    expect(onEvict.mock.calls[1][0][0].label).toBe('one');
+  });
+});
+describe('UndoRedoStore transactions', () => {
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  it('should record one entry when the transaction resolves', async () => {
+    const store = new UndoRedoStore(0);
+
+    const result = await store.withTransaction(
+      async (state) => {
+        store.set(state + 1);
+        await tick();
+        store.set((prev) => prev + 1);
+
+        return 'done';
+      },
+      { label: 'increment twice' }
+    );
+
+    expect(result).toBe('done');
+    expect(store.getSnapshot().present).toBe(2);
+    expect(store.getHistory().past).toEqual([0]);
+    expect(store.getSnapshot().presentInfo.label).toBe('increment twice');
+    expect(store.getSnapshot().isBatching).toBe(false);
+  });
+
+  it('should roll back when the transaction rejects', async () => {
+    const store = new UndoRedoStore(0);
+
+    store.set(1);
+    store.set(2);
+    store.undo();
+
+    const error = new Error('failed');
+
+    await expect(
+      store.withTransaction(async () => {
+        store.set(10);
+        await tick();
+        throw error;
+      })
+    ).rejects.toBe(error);
+
+    expect(store.getSnapshot().present).toBe(1);
+    expect(store.getHistory().past).toEqual([0]);
+    expect(store.getHistory().future).toEqual([2]);
+    expect(store.getSnapshot().isBatching).toBe(false);
+  });
+
+  it('should keep changes when rollback is disabled', async () => {
+    const store = new UndoRedoStore(0);
+
+    await expect(
+      store.withTransaction(
+        () => {
+          store.set(5);
+          throw new Error('failed');
+        },
+        { rollback: false }
+      )
+    ).rejects.toThrow('failed');
+
+    expect(store.getSnapshot().present).toBe(5);
+    expect(store.getHistory().past).toEqual([0]);
+  });
+
+  it('should run a transaction started while another is pending inside it', async () => {
+    const store = new UndoRedoStore<string[]>([]);
+    const run = (name: string) =>
+      store.withTransaction(async () => {
+        store.set((prev) => [...prev, `${name} start`]);
+        await tick();
+        store.set((prev) => [...prev, `${name} end`]);
+      });
+
+    await Promise.all([run('a'), run('b')]);
+
+    expect(store.getSnapshot().present).toEqual([
+      'a start',
+      'b start',
+      'a end',
+      'b end',
+    ]);
+    expect(store.getHistory().past).toEqual([[]]);
+    expect(store.getSnapshot().isBatching).toBe(false);
+  });
+
+  it('should stop batching after a rollback when the outer batch closed', async () => {
+    const store = new UndoRedoStore(0);
+    let transaction: Promise<void> = Promise.resolve();
+
+    store.withBatch(() => {
+      transaction = store.withTransaction(async () => {
+        await tick();
+        throw new Error('failed');
+      });
+    });
+
+    await expect(transaction).rejects.toThrow('failed');
+
+    expect(store.getSnapshot().isBatching).toBe(false);
+
+    store.set(5);
+
+    expect(store.canUndo).toBe(true);
+    expect(store.getHistory().past).toEqual([0]);
+  });
+
+  it('should run a transaction awaited inside another one', async () => {
+    const store = new UndoRedoStore(0);
+    const error = new Error('failed');
+
+    await store.withTransaction(async () => {
+      store.set(1);
+      await tick();
+      await store.withTransaction(async () => {
+        store.set(2);
+        await tick();
+      });
+      await expect(
+        store.withTransaction(async () => {
+          store.set(3);
+          await tick();
+          throw error;
+        })
+      ).rejects.toBe(error);
+
+      expect(store.getSnapshot().present).toBe(2);
+      expect(store.getSnapshot().isBatching).toBe(true);
+    });
+
+    expect(store.getSnapshot().isBatching).toBe(false);
+    expect(store.getSnapshot().present).toBe(2);
+    expect(store.getHistory().past).toEqual([0]);
+
+    store.set(4);
+
+    expect(store.getHistory().past).toEqual([0, 2]);
+  });
+
+  it('should not end a batch that reset discarded', async () => {
+    const store = new UndoRedoStore(0);
+
+    await store.withTransaction(async () => {
+      store.set(1);
+      store.reset(7);
+      store.startBatch();
+      store.set(8);
+    });
+
+    expect(store.getSnapshot().isBatching).toBe(true);
+
+    store.endBatch();
+
+    expect(store.getHistory().past).toEqual([7]);
+  });
+});
+
+describe('UndoRedoStore revertEntry', () => {
+  const createStore = () => {
+    const store = new UndoRedoStore({ color: 'red', size: 1 });
+
+    store.set({ color: 'blue', size: 1 }, { label: 'color' });
+    store.set({ color: 'blue', size: 2 }, { label: 'size' });
+
+    return store;
+  };
+
+  it('should revert an earlier change as a new entry', () => {
+    const store = createStore();
+    const result = store.revertEntry(1, { label: 'revert color' });
+
+    expect(result).toEqual({ applied: true, conflicts: [] });
+    expect(store.getSnapshot().present).toEqual({ color: 'red', size: 2 });
+    expect(store.getHistory().past).toHaveLength(3);
+    expect(store.getSnapshot().presentInfo.label).toBe('revert color');
+
+    store.undo();
+
+    expect(store.getSnapshot().present).toEqual({ color: 'blue', size: 2 });
+  });
+
+  it('should leave the state unchanged on conflicts by default', () => {
+    const store = createStore();
+
+    store.set({ color: 'green', size: 2 });
+
+    const result = store.revertEntry(1);
+
+    expect(result.applied).toBe(false);
+    expect(result.conflicts).toEqual([
+      { path: ['color'], expected: 'blue', actual: 'green' },
+    ]);
+    expect(store.getSnapshot().present).toEqual({ color: 'green', size: 2 });
+    expect(store.getHistory().past).toHaveLength(3);
+  });
+
+  it('should record the clean part with onConflict skip', () => {
+    const store = new UndoRedoStore({ color: 'red', size: 1 });
+
+    store.set({ color: 'blue', size: 2 });
+    store.set({ color: 'green', size: 2 });
+
+    const result = store.revertEntry(1, { onConflict: 'skip' });
+
+    expect(result).toEqual({
+      applied: true,
+      conflicts: [{ path: ['color'], expected: 'blue', actual: 'green' }],
+    });
+    expect(store.getSnapshot().present).toEqual({ color: 'green', size: 1 });
+  });
+
+  it('should use a custom rebase function', () => {
+    const store = new UndoRedoStore(10);
+    const rebase = jest.fn(
+      (present: number, before: number, after: number) => ({
+        state: present - (after - before),
+        conflicts: [],
+      })
+    );
+
+    store.set(15);
+    store.set(17);
+    store.revertEntry(1, { rebase });
+
+    expect(rebase).toHaveBeenCalledWith(17, 10, 15);
+    expect(store.getSnapshot().present).toBe(12);
+  });
+
+  it('should record a revert that filter would keep out of history', () => {
+    const store = new UndoRedoStore(
+      { color: 'red', size: 1 },
+      { filter: (prev, next) => next.color !== 'red' }
+    );
+
+    store.set({ color: 'blue', size: 1 });
+    store.set({ color: 'blue', size: 2 });
+
+    const result = store.revertEntry(1);
+
+    expect(result.applied).toBe(true);
+    expect(store.getSnapshot().present).toEqual({ color: 'red', size: 2 });
+    expect(store.getHistory().past).toHaveLength(3);
+  });
+
+  it('should record a revert inside a batch with the batch', () => {
+    const store = createStore();
+
+    store.startBatch();
+
+    expect(store.revertEntry(1).applied).toBe(true);
+
+    store.set({ color: 'red', size: 3 });
+    store.endBatch();
+
+    expect(store.getHistory().past).toHaveLength(3);
+    expect(store.getSnapshot().present).toEqual({ color: 'red', size: 3 });
+  });
+
+  it('should reject indexes that are not applied changes', () => {
+    const store = createStore();
+
+    expect(() => store.revertEntry(0)).toThrow(RangeError);
+    expect(() => store.revertEntry(3)).toThrow(RangeError);
+  });
+});
+
+describe('UndoRedoStore skipHistory', () => {
+  it('should change the present without an entry', () => {
+    const store = new UndoRedoStore({ text: '', cursor: 0 });
+
+    store.set({ text: 'a', cursor: 0 });
+    store.set({ text: 'a', cursor: 1 }, { skipHistory: true });
+
+    expect(store.getSnapshot().present).toEqual({ text: 'a', cursor: 1 });
+    expect(store.getHistory().past).toEqual([{ text: '', cursor: 0 }]);
+
+    store.undo();
+
+    expect(store.getSnapshot().present).toEqual({ text: '', cursor: 0 });
+  });
+
+  it('should keep neighbouring patch entries intact', () => {
+    const store = new UndoRedoStore(
+      { text: '', cursor: 0 },
+      { historyStorage: 'patch' }
+    );
+
+    store.set({ text: 'a', cursor: 1 });
+    store.set({ text: 'ab', cursor: 2 });
+    store.undo();
+    store.set({ text: 'a', cursor: 0 }, { skipHistory: true });
+
+    expect(store.getHistory().past).toEqual([{ text: '', cursor: 0 }]);
+    expect(store.getHistory().future).toEqual([{ text: 'ab', cursor: 2 }]);
+
+    store.redo();
+
+    expect(store.getSnapshot().present).toEqual({ text: 'ab', cursor: 2 });
+  });
+});
+
+describe('UndoRedoStore mergeIgnored', () => {
+  it('should keep patch history consistent', () => {
+    const store = new UndoRedoStore(
+      { text: '', selection: 0 },
+      {
+        historyStorage: 'patch',
+        filter: (prev, next) => prev.text !== next.text,
+        mergeIgnored: (restored, current) => ({
+          ...restored,
+          selection: current.selection,
+        }),
+      }
+    );
+
+    store.set({ text: 'a', selection: 1 });
+    store.set({ text: 'ab', selection: 2 });
+    store.set({ text: 'ab', selection: 0 });
+    store.undo(2);
+
+    expect(store.getSnapshot().present).toEqual({ text: '', selection: 0 });
+    expect(store.getHistory().future).toEqual([
+      { text: 'a', selection: 1 },
+      { text: 'ab', selection: 0 },
+    ]);
+
+    store.redo(2);
+
+    expect(store.getSnapshot().present).toEqual({ text: 'ab', selection: 0 });
+    expect(store.getHistory().past).toEqual([
+      { text: '', selection: 0 },
+      { text: 'a', selection: 1 },
+    ]);
+  });
+
+  it('should apply to branch switches', () => {
+    const store = new UndoRedoStore(
+      { text: '', selection: 0 },
+      {
+        branching: true,
+        filter: (prev, next) => prev.text !== next.text,
+        mergeIgnored: (restored, current) => ({
+          ...restored,
+          selection: current.selection,
+        }),
+      }
+    );
+
+    store.set({ text: 'a', selection: 0 });
+    store.undo();
+    store.set({ text: 'b', selection: 0 });
+    store.set({ text: 'b', selection: 7 });
+
+    const [first] = store.getBranches(0);
+
+    store.switchBranch(first.id);
+
+    expect(store.getSnapshot().present).toEqual({ text: 'a', selection: 7 });
+  });
+});
+
+describe('UndoRedoStore checkpoints', () => {
+  it('should restore a checkpoint trimmed out of history as an undoable set', () => {
+    const store = new UndoRedoStore({ text: 'draft' }, { maxHistorySize: 2 });
+
+    store.createCheckpoint('before refactor', { meta: { author: 'ann' } });
+    store.set({ text: 'a' });
+    store.set({ text: 'b' });
+    store.set({ text: 'c' });
+
+    expect(store.getHistory().past).not.toContainEqual({ text: 'draft' });
+
+    store.restoreCheckpoint('before refactor', { label: 'Restore' });
+
+    expect(store.getSnapshot().present).toEqual({ text: 'draft' });
+    expect(store.getSnapshot().presentInfo.label).toBe('Restore');
+
+    store.undo();
+
+    expect(store.getSnapshot().present).toEqual({ text: 'c' });
+  });
+
+  it('should list, replace and delete checkpoints', () => {
+    const store = new UndoRedoStore(0);
+    const listener = jest.fn();
+
+    store.subscribe(listener);
+    store.createCheckpoint('a', { timestamp: 1 });
+    store.set(1);
+    store.createCheckpoint('b', { timestamp: 2 });
+    store.set(2);
+    store.createCheckpoint('a', { timestamp: 3 });
+
+    const list = store.listCheckpoints();
+
+    expect(list).toEqual([
+      { name: 'b', timestamp: 2, meta: undefined },
+      { name: 'a', timestamp: 3, meta: undefined },
+    ]);
+    expect(store.listCheckpoints()).toBe(list);
+    expect(listener).toHaveBeenCalledTimes(5);
+
+    store.restoreCheckpoint('a');
+
+    expect(store.getSnapshot().present).toBe(2);
+    expect(store.deleteCheckpoint('a')).toBe(true);
+    expect(store.deleteCheckpoint('a')).toBe(false);
+    expect(store.listCheckpoints().map((item) => item.name)).toEqual(['b']);
+    expect(() => store.restoreCheckpoint('a')).toThrow(RangeError);
+  });
+
+  it('should keep checkpoints through undo and redo', () => {
+    const store = new UndoRedoStore('initial');
+
+    store.set('one');
+    store.createCheckpoint('one');
+    store.undo();
+    store.redo();
+    store.undo();
+    store.restoreCheckpoint('one');
+
+    expect(store.getSnapshot().present).toBe('one');
+    expect(store.canRedo).toBe(false);
+  });
+
+  it('should store checkpoints with the history codec', () => {
+    const codec = {
+      encode: jest.fn((value: unknown) => JSON.stringify(value)),
+      decode: jest.fn((data: string) => JSON.parse(data)),
+    };
+    const store = new UndoRedoStore(
+      { items: [1, 2] },
+      { compressHistory: true, codec }
+    );
+
+    store.createCheckpoint('start');
+    store.set({ items: [] });
+
+    expect(codec.encode).toHaveBeenCalledWith({ items: [1, 2] });
+
+    codec.decode.mockClear();
+    store.restoreCheckpoint('start');
+
+    expect(codec.decode).toHaveBeenCalledWith('{"items":[1,2]}');
+    expect(store.getSnapshot().present).toEqual({ items: [1, 2] });
+  });
+
+  it('should delete checkpoints on reset unless keepCheckpoints is set', () => {
+    const store = new UndoRedoStore('a');
+
+    store.createCheckpoint('a');
+    store.reset('b', { keepCheckpoints: true });
+
+    expect(store.listCheckpoints().map((item) => item.name)).toEqual(['a']);
+
+    store.restoreCheckpoint('a');
+
+    expect(store.getHistory().past).toEqual(['b']);
+
+    store.reset('c');
+
+    expect(store.listCheckpoints()).toEqual([]);
+  });
+
+  it('should re-encode checkpoints when reset switches the codec', () => {
+    const store = new UndoRedoStore('first', { compressHistory: true });
+    const codec = {
+      encode: (value: unknown) => `custom:${JSON.stringify(value)}`,
+      decode: (data: string) => JSON.parse(data.slice('custom:'.length)),
+    };
+
+    store.createCheckpoint('first');
+    store.setOptions({ compressHistory: true, codec });
+    store.reset('second', { keepCheckpoints: true });
+    store.restoreCheckpoint('first');
+
+    expect(store.getSnapshot().present).toBe('first');
+  });
+});
+
+describe('UndoRedoStore events', () => {
+  const collect = <T>(store: UndoRedoStore<T>) => {
+    const events: HistoryEvent<T>[] = [];
+
+    store.subscribeEvents((event) => events.push(event));
+
+    return events;
+  };
+
+  it('should emit set, undo, redo and reset after the snapshot is committed', () => {
+    const store = new UndoRedoStore('a');
+    const events = collect(store);
+    const snapshots: string[] = [];
+
+    store.subscribeEvents(() => snapshots.push(store.getSnapshot().present));
+    store.set('b', { label: 'B' });
+    store.undo();
+    store.redo();
+    store.reset('c');
+
+    expect(events.map((event) => event.type)).toEqual([
+      'set',
+      'undo',
+      'redo',
+      'reset',
+    ]);
+    expect(events[0]).toMatchObject({
+      prevState: 'a',
+      nextState: 'b',
+      info: { label: 'B' },
+      merged: false,
+    });
+    expect(events[1]).toMatchObject({
+      prevState: 'b',
+      nextState: 'a',
+      steps: 1,
+    });
+    expect(events[3]).toMatchObject({ state: 'c' });
+    expect(snapshots).toEqual(['b', 'a', 'b', 'c']);
+  });
+
+  it('should report coalesced changes as merged', () => {
+    const store = new UndoRedoStore('', { coalesce: 1000 });
+    const events = collect(store);
+
+    store.set('a');
+    store.set('ab');
+
+    expect(events.map((event) => event.type === 'set' && event.merged)).toEqual(
+      [false, true]
+    );
+  });
+
+  it('should emit batch events around the recorded entry', () => {
+    const store = new UndoRedoStore(0);
+    const events = collect(store);
+
+    store.withBatch(
+      () => {
+        store.set(1);
+        store.set(2);
+      },
+      { label: 'batch' }
+    );
+    store.withBatch(() => undefined);
+
+    expect(events.map((event) => event.type)).toEqual([
+      'batchStart',
+      'set',
+      'batchCommit',
+      'batchStart',
+      'batchCommit',
+    ]);
+    expect(events[1]).toMatchObject({ prevState: 0, nextState: 2 });
+    expect(events[2]).toMatchObject({ info: { label: 'batch' } });
+    expect(events[4]).toEqual({ type: 'batchCommit', info: null });
+  });
+
+  it('should emit batchRollback for a failed transaction and a dropped batch', async () => {
+    const store = new UndoRedoStore(0);
+    const events = collect(store);
+
+    await expect(
+      store.withTransaction(async () => {
+        store.set(1);
+        throw new Error('failed');
+      })
+    ).rejects.toThrow('failed');
+
+    store.startBatch();
+    store.set(2);
+    store.reset(3);
+
+    expect(events.map((event) => event.type)).toEqual([
+      'batchStart',
+      'batchRollback',
+      'batchStart',
+      'batchRollback',
+      'reset',
+    ]);
+  });
+
+  it('should emit evict with the trimmed entries and call onEvict', () => {
+    const onEvict = jest.fn();
+    const store = new UndoRedoStore('a', { maxHistorySize: 1, onEvict });
+    const events = collect(store);
+
+    store.set('b');
+    store.set('c', { label: 'C' });
+
+    const evict = events.filter((event) => event.type === 'evict');
+
+    expect(evict).toHaveLength(1);
+    expect(onEvict).toHaveBeenCalledTimes(1);
+    expect(onEvict).toHaveBeenCalledWith(
+      (evict[0] as { entries: EntryInfo[] }).entries
+    );
+    expect(events.map((event) => event.type)).toEqual(['set', 'set', 'evict']);
+  });
+
+  it('should stop emitting after unsubscribing', () => {
+    const store = new UndoRedoStore(0);
+    const listener = jest.fn();
+    const unsubscribe = store.subscribeEvents(listener);
+
+    store.set(1);
+    unsubscribe();
+    store.set(2);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,1969 @@
+import { CodecError, HistoryCodec, PendingEntry, jsonCodec } from './codec';
+import {
+  HistoryNode,
+  HistoryTreeNode,
+  activatePath,
+  appendNode,
+  buildTreeView,
+  createTree,
+  detachFuture,
+  extendPath,
+  getNodePath,
+  trimTree,
+} from './historyTree';
+import {
+  ExportHistoryOptions,
+  HISTORY_FORMAT,
+  HISTORY_FORMAT_VERSION,
+  HistoryDocument,
+  HistoryImportError,
+  ImportHistoryOptions,
+  validateHistoryDocument,
+} from './historyDocument';
+import { createLazySequence } from './lazySequence';
+import { HistoryPatch, applyPatch, createPatch, rebaseInverse } from './patch';
+import {
+  HydrationStatus,
+  PersistOptions,
+  PersistedHistory,
+  isPromiseLike,
+  toPersistedHistory,
+  validatePersistedHistory,
+} from './persist';
+import {
+  SyncAction,
+  SyncChannel,
+  SyncMessage,
+  SyncOptions,
+  createBroadcastChannel,
+  createSyncId,
+  isNewerRevision,
+} from './sync';
+import {
+  Checkpoint,
+  CheckpointOptions,
+  CoalesceOptions,
+  EntryInfo,
+  EntryOptions,
+  History,
+  HistoryEntry,
+  HistoryEvent,
+  HistoryEventListener,
+  HistoryStorage,
+  Options,
+  SetOptions,
+  SetStateAction,
+  StoredData,
+  RevertOptions,
+  ResetOptions,
+  RevertResult,
+  TransactionOptions,
+  UndoRedoState,
+} from './types';
+import {
+  clampSteps,
+  createEntryInfo,
+  deepFreeze,
+  estimateByteSize,
+  safeStructuredClone,
+} from './utils';
+
+type Listener = () => void;
+
+interface StoredCheckpoint<T> {
+  checkpoint: Checkpoint;
+  data: StoredData<T>;
+  isCompressed: boolean;
+}
+
+interface ResolvedOptions<T> {
+  maxHistorySize?: number;
+  maxHistoryBytes?: number;
+  estimateSize: (entry: unknown) => number;
+  equalFn: (a: T, b: T) => boolean;
+  immutable: boolean;
+  freeze: boolean;
+  compressHistory: boolean;
+  codec: HistoryCodec;
+  historyStorage: HistoryStorage;
+  branching: boolean;
+  persist?: PersistOptions<T>;
+  sync?: SyncOptions;
+  coalesce?: CoalesceOptions<T>;
+  filter?: (prev: T, next: T) => boolean;
+  mergeIgnored?: (restored: T, current: T) => T;
+  onUndo?: (prevState: T, nextState: T) => void;
+  onRedo?: (prevState: T, nextState: T) => void;
+  onSet?: (prevState: T, nextState: T) => void;
+  onEvict?: (evicted: EntryInfo[]) => void;
+}
+
+const defaultEquals = <T>(a: T, b: T) => a === b;
+
+/** Calls the `onSet`/`onUndo`/`onRedo`/`onEvict` options for an event. */
+const runCallbacks = <T>(
+  options: ResolvedOptions<T>,
+  event: HistoryEvent<T>
+): void => {
+  switch (event.type) {
+    case 'set':
+      if (options.onSet) options.onSet(event.prevState, event.nextState);
+      break;
+    case 'undo':
+      if (options.onUndo) options.onUndo(event.prevState, event.nextState);
+      break;
+    case 'redo':
+    case 'switchBranch':
+      if (options.onRedo) options.onRedo(event.prevState, event.nextState);
+      break;
+    case 'evict':
+      if (options.onEvict) options.onEvict(event.entries);
+      break;
+  }
+};
+
+const resolveOptions = <T>(options: Options<T>): ResolvedOptions<T> => ({
+  maxHistorySize: options.maxHistorySize,
+  maxHistoryBytes: options.maxHistoryBytes,
+  estimateSize: options.estimateSize || estimateByteSize,
+  equalFn: options.equalFn || defaultEquals,
+  immutable: options.immutable || false,
+  freeze: options.freeze || false,
+  compressHistory: options.compressHistory || false,
+  codec: options.codec || jsonCodec,
+  historyStorage: options.historyStorage || 'snapshot',
+  branching: options.branching || false,
+  persist: options.persist,
+  sync: options.sync,
+  coalesce:
+    typeof options.coalesce === 'number'
+      ? { window: options.coalesce }
+      : options.coalesce,
+  filter: options.filter,
+  mergeIgnored: options.mergeIgnored,
+  onUndo: options.onUndo,
+  onRedo: options.onRedo,
+  onSet: options.onSet,
+  onEvict: options.onEvict,
+});
+
+/**
+ * Framework-agnostic undo/redo history container.
+ *
+ * Holds the past/present/future timeline and exposes a
+ * `subscribe`/`getSnapshot` pair compatible with `useSyncExternalStore`, so it
+ * can be used directly in workers, Node scripts or tests, or wrapped by
+ * `useUndoRedo` in React.
+ */
+export class UndoRedoStore<T> {
+  private options: ResolvedOptions<T>;
+  private state: UndoRedoState<T>;
+  private codec: HistoryCodec = jsonCodec;
+  private listeners = new Set<Listener>();
+  private actionListeners = new Set<(action: SyncAction<T>) => void>();
+  private eventListeners = new Set<HistoryEventListener<T>>();
+  private batchDepth = 0;
+  private batchInitialValue: { value: T } | null = null;
+  private batchEntryOptions: EntryOptions | undefined;
+  private batchGeneration = 0;
+  private hydrationStatus: HydrationStatus = 'hydrated';
+  private changedBeforeHydration = false;
+  private syncId = createSyncId();
+  private syncChannel: SyncChannel | null = null;
+  private syncRevision = 0;
+  private syncWriterId = '';
+  private isApplyingRemote = false;
+  private lastSet: { state: UndoRedoState<T>; time: number } | null = null;
+  private saved: { value: T; info: EntryInfo };
+  private checkpoints = new Map<string, StoredCheckpoint<T>>();
+  private checkpointList: Checkpoint[] = [];
+  private pendingEncodings = 0;
+  private isSaveQueued = false;
+  private isSyncStateQueued = false;
+  private entrySizes = new WeakMap<object, number>();
+  private historyCache: {
+    state: UndoRedoState<T>;
+    history: History<T>;
+  } | null = null;
+
+  constructor(initialValue: T, options: Options<T> = {}) {
+    this.options = resolveOptions(options);
+    this.state = this.freezePresent(this.createInitialState(initialValue));
+    this.saved = { value: this.state.present, info: this.state.presentInfo };
+
+    if (this.options.persist) {
+      this.hydrate(this.options.persist);
+    }
+  }
+
+  /**
+   * Replaces the options. `compressHistory`, `codec`, `historyStorage` and
+   * `branching` changes take effect on the next `reset`, so existing entries
+   * are never decoded with the wrong format.
+   */
+  setOptions = (options: Options<T>): void => {
+    this.options = resolveOptions(options);
+  };
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Listens for history events, see `HistoryEvent`. Changes received from
+   * other instances are not reported.
+   */
+  subscribeEvents = (listener: HistoryEventListener<T>): (() => void) => {
+    this.eventListeners.add(listener);
+
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  };
+
+  /**
+   * Listens for local transitions (the actions sent to other instances with
+   * `sync`). Changes received from other instances are not reported.
+   */
+  subscribeActions = (
+    listener: (action: SyncAction<T>) => void
+  ): (() => void) => {
+    this.actionListeners.add(listener);
+
+    return () => {
+      this.actionListeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): UndoRedoState<T> => {
+    return this.state;
+  };
+
+  /**
+   * Continues from a snapshot taken earlier, e.g. one kept in a Redux store
+   * by `undoable`. An open batch is dropped; nothing is persisted or
+   * broadcast.
+   */
+  load = (state: UndoRedoState<T>): void => {
+    const discarded = this.discardBatch();
+
+    this.lastSet = null;
+    this.state = this.freezePresent(state);
+    this.notify();
+
+    if (discarded) this.emit({ type: 'batchRollback' });
+  };
+
+  /**
+   * `pending` while an asynchronous `persist` storage is being read, `failed`
+   * when the stored history could not be restored.
+   */
+  getHydrationStatus = (): HydrationStatus => {
+    return this.hydrationStatus;
+  };
+
+  /**
+   * Opens the `sync` channel and asks other instances for their history.
+   * Returns a function that closes the channel. Does nothing without `sync`.
+   */
+  connect = (): (() => void) => {
+    const { sync } = this.options;
+
+    if (!sync || this.syncChannel) return () => undefined;
+
+    const channel = (sync.createChannel || createBroadcastChannel)(
+      sync.channel
+    );
+    const listener = (event: { data: SyncMessage<unknown> }) =>
+      this.handleSyncMessage(event.data as SyncMessage<T>);
+
+    this.syncChannel = channel;
+    channel.addEventListener('message', listener);
+    channel.postMessage({ kind: 'request', sourceId: this.syncId });
+
+    return () => {
+      channel.removeEventListener('message', listener);
+      channel.close();
+
+      if (this.syncChannel === channel) {
+        this.syncChannel = null;
+      }
+    };
+  };
+
+  /**
+   * Returns lazily decoded `past`/`future` arrays for the current snapshot.
+   * The same object is returned until the snapshot changes.
+   */
+  getHistory = (): History<T> => {
+    if (this.historyCache && this.historyCache.state === this.state) {
+      return this.historyCache.history;
+    }
+
+    const { state } = this;
+    const history = this.createHistory(state);
+
+    this.historyCache = { state, history };
+
+    return history;
+  };
+
+  get canUndo(): boolean {
+    return this.state.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.state.future.length > 0;
+  }
+
+  /**
+   * Whether the present differs from the saved state: `false` on the saved
+   * entry, otherwise decided by `equalFn`.
+   */
+  get isDirty(): boolean {
+    const { state, saved } = this;
+
+    return (
+      state.presentInfo !== saved.info &&
+      !this.options.equalFn(state.present, saved.value)
+    );
+  }
+
+  /** Whether the saved state is still among the `past` entries. */
+  get canUndoToSaved(): boolean {
+    const index = this.getSavedIndex();
+
+    return index !== -1 && index < this.state.past.length;
+  }
+
+  /**
+   * Records a new state. `options.label` and `options.meta` describe the
+   * change in `history.entries`; inside a batch the last labeled `set` names
+   * the batch unless `endBatch` gets its own label. With `coalesce`, the
+   * change may be merged into the entry of the previous `set` instead.
+   * An updater function receives the latest present, including changes made
+   * earlier in the same event handler or batch.
+   */
+  set = (action: SetStateAction<T>, options?: SetOptions): void => {
+    const prev = this.state;
+    const { equalFn, filter } = this.options;
+    const newValue =
+      typeof action === 'function'
+        ? (action as (prev: T) => T)(prev.present)
+        : action;
+
+    if (equalFn(prev.present, newValue)) return;
+
+    const skipHistory =
+      options && options.skipHistory !== undefined
+        ? options.skipHistory
+        : !!filter && !this.isApplyingRemote && !filter(prev.present, newValue);
+
+    if (skipHistory && !prev.isBatching) {
+      this.commit(this.replacePresent(prev, this.copyState(newValue)));
+
+      // A skipped change does not interrupt coalescing
+      if (this.lastSet && this.lastSet.state === prev) {
+        this.lastSet = { state: this.state, time: this.lastSet.time };
+      }
+
+      this.broadcast({ type: 'replace', value: this.state.present });
+
+      return;
+    }
+
+    if (prev.isBatching) {
+      if (options && (options.label !== undefined || options.meta)) {
+        this.batchEntryOptions = options;
+      }
+
+      this.commit({
+        ...prev,
+        present: this.copyState(newValue),
+        future: [],
+        futureInfo: [],
+        tree:
+          prev.tree && detachFuture(prev.tree, prev.past.length, prev.future),
+      });
+
+      return;
+    }
+
+    const present = this.copyState(newValue);
+    const now = Date.now();
+
+    if (this.shouldCoalesce(prev, present, now)) {
+      const info = this.createMergedInfo(prev.presentInfo, options);
+
+      this.commit(this.mergeEntry(prev, present, info));
+      this.lastSet = { state: this.state, time: now };
+
+      this.emit({
+        type: 'set',
+        prevState: prev.present,
+        nextState: this.state.present,
+        info,
+        merged: true,
+      });
+      this.broadcast({ type: 'merge', value: present, info });
+
+      return;
+    }
+
+    const info = createEntryInfo(options);
+
+    this.commit(
+      this.pushEntry(
+        prev,
+        this.createEntry(prev, prev.present, present),
+        present,
+        info
+      )
+    );
+    this.lastSet = { state: this.state, time: now };
+
+    this.emitSet(prev, info);
+    this.broadcast({ type: 'set', value: present, info });
+  };
+
+  /** Moves `steps` entries back in one transition. */
+  undo = (steps?: number): void => {
+    const prev = this.state;
+    const count = clampSteps(steps, prev.past.length);
+
+    if (count === 0) return;
+
+    const next = this.carryIgnored(prev, this.moveBackward(prev, count));
+
+    this.commit(next);
+
+    this.emit({
+      type: 'undo',
+      prevState: prev.present,
+      nextState: this.state.present,
+      steps: count,
+    });
+    this.broadcast({ type: 'undo', steps: count });
+  };
+
+  /** Moves `steps` entries forward in one transition. */
+  redo = (steps?: number): void => {
+    const prev = this.state;
+    const count = clampSteps(steps, prev.future.length);
+
+    if (count === 0) return;
+
+    const next = this.carryIgnored(prev, this.moveForward(prev, count));
+
+    this.commit(next);
+
+    this.emit({
+      type: 'redo',
+      prevState: prev.present,
+      nextState: this.state.present,
+      steps: count,
+    });
+    this.broadcast({ type: 'redo', steps: count });
+  };
+
+  /**
+   * Jumps to a position on the combined past/present/future timeline, where
+   * `0` is the oldest past entry and `past.length` is the present.
+   */
+  goTo = (index: number): void => {
+    const current = this.state.past.length;
+
+    if (index < current) {
+      this.undo(current - index);
+    } else if (index > current) {
+      this.redo(index - current);
+    }
+  };
+
+  /**
+   * Reverts the change that produced the entry at timeline `index` without
+   * undoing later changes. The result is recorded as a new entry; with
+   * conflicts nothing is recorded unless `onConflict` is `'skip'`.
+   */
+  revertEntry = (
+    index: number,
+    options: RevertOptions<T> = {}
+  ): RevertResult => {
+    const { past, present } = this.state;
+
+    if (index < 1 || index > past.length || index % 1 !== 0) {
+      throw new RangeError(`Entry ${index} is not an applied change`);
+    }
+
+    const history = this.getHistory();
+    const before = history.past[index - 1];
+    const after = index === past.length ? present : history.past[index];
+    const { rebase = rebaseInverse, onConflict = 'abort' } = options;
+    const { state, conflicts } = rebase(present, before, after);
+
+    if (conflicts.length > 0 && onConflict === 'abort') {
+      return { applied: false, conflicts };
+    }
+
+    const prev = this.state;
+
+    // A revert is always recorded, `filter` does not apply to it
+    this.lastSet = null;
+    this.set(() => state, { ...options, skipHistory: false });
+
+    // Inside a batch the revert is recorded with the batch entry
+    const applied = prev.isBatching
+      ? this.state !== prev
+      : this.state.presentInfo !== prev.presentInfo;
+
+    return { applied, conflicts };
+  };
+
+  /** Returns the branch tree in branching mode, `null` otherwise. */
+  getTree = (): HistoryTreeNode | null => {
+    const { tree, past } = this.state;
+
+    return tree && buildTreeView(tree, past.length);
+  };
+
+  /** Lists the branches starting at `nodeId` (the present node by default). */
+  getBranches = (nodeId?: number): HistoryNode[] => {
+    const { tree, past } = this.state;
+
+    if (!tree) return [];
+
+    const node =
+      tree.nodes[nodeId === undefined ? tree.path[past.length] : nodeId];
+
+    return node ? node.childIds.map((id) => tree.nodes[id]) : [];
+  };
+
+  /** Rebuilds the state of any node of the branch tree. */
+  getNodeState = (nodeId: number): T | undefined => {
+    const state = this.state;
+    const { tree } = state;
+
+    if (!tree || !(nodeId in tree.nodes)) return undefined;
+
+    const chain: number[] = [];
+    let anchorId = nodeId;
+
+    while (tree.path.indexOf(anchorId) === -1) {
+      chain.unshift(anchorId);
+      anchorId = tree.nodes[anchorId].parentId!;
+    }
+
+    if (state.historyStorage !== 'patch' && chain.length > 0) {
+      return this.decode(tree.detached[nodeId], state.isCompressed);
+    }
+
+    return chain.reduce(
+      (value, id) =>
+        applyPatch(
+          value,
+          this.decodePatch(state, tree.detached[id]).forward,
+          this.copyState
+        ),
+      this.getTimelineState(tree.path.indexOf(anchorId))
+    );
+  };
+
+  /**
+   * Makes the branch containing `nodeId` the active path and jumps to that
+   * node. Nodes outside the active path are reached in one transition that
+   * calls `onRedo`, nodes on it are reached with `goTo`.
+   */
+  switchBranch = (nodeId: number): void => {
+    const prev = this.state;
+    const { tree } = prev;
+
+    if (!tree || !(nodeId in tree.nodes)) return;
+
+    const index = tree.path.indexOf(nodeId);
+
+    if (index !== -1) {
+      this.goTo(index);
+
+      return;
+    }
+
+    const target = this.getNodeState(nodeId) as T;
+    const entries = this.collectEntries(prev);
+    const head = getNodePath(tree, nodeId);
+    const path = extendPath(tree, head);
+    const presentIndex = head.length - 1;
+    const pastStart = prev.historyStorage === 'patch' ? 1 : 0;
+    const detached = { ...entries };
+
+    path.forEach((id) => {
+      delete detached[id];
+    });
+
+    this.commit(
+      this.carryIgnored(prev, {
+        ...prev,
+        past: path
+          .slice(pastStart, presentIndex + pastStart)
+          .map((id) => entries[id]),
+        present: target,
+        future: path.slice(presentIndex + 1).map((id) => entries[id]),
+        pastInfo: path.slice(0, presentIndex).map((id) => tree.nodes[id].info),
+        presentInfo: tree.nodes[nodeId].info,
+        futureInfo: path
+          .slice(presentIndex + 1)
+          .map((id) => tree.nodes[id].info),
+        tree: { ...tree, nodes: activatePath(tree, path), path, detached },
+      })
+    );
+
+    this.emit({
+      type: 'switchBranch',
+      prevState: prev.present,
+      nextState: this.state.present,
+      nodeId,
+    });
+    this.broadcast({ type: 'switchBranch', nodeId });
+  };
+
+  /**
+   * Starts a new history with `value`. Checkpoints are deleted unless
+   * `options.keepCheckpoints` is set.
+   */
+  reset = (value: T, options: ResetOptions = {}): void => {
+    if (!options.keepCheckpoints) {
+      this.checkpoints.clear();
+      this.checkpointList = [];
+    }
+
+    const discarded = this.discardBatch();
+
+    this.commit(this.createInitialState(value, createEntryInfo(options)));
+    this.saved = { value: this.state.present, info: this.state.presentInfo };
+
+    if (discarded) this.emit({ type: 'batchRollback' });
+
+    this.emit({
+      type: 'reset',
+      state: this.state.present,
+      info: this.state.presentInfo,
+    });
+    this.broadcast({
+      type: 'reset',
+      value: this.state.present,
+      info: this.state.presentInfo,
+    });
+  };
+
+  startBatch = (): void => {
+    this.batchDepth += 1;
+
+    if (this.batchDepth === 1) {
+      this.batchInitialValue = {
+        value: this.copyState(this.state.present),
+      };
+      this.commit({ ...this.state, isBatching: true });
+      this.emit({ type: 'batchStart' });
+    }
+  };
+
+  endBatch = (options?: EntryOptions): void => {
+    if (this.batchDepth === 0) return;
+
+    this.batchDepth -= 1;
+
+    if (this.batchDepth > 0) return;
+
+    const prev = this.state;
+    const { equalFn } = this.options;
+    const initial = this.batchInitialValue;
+    const info = createEntryInfo(options || this.batchEntryOptions);
+
+    this.batchInitialValue = null;
+    this.batchEntryOptions = undefined;
+
+    if (!initial || equalFn(initial.value, prev.present)) {
+      this.commit({ ...prev, isBatching: false });
+      this.emit({ type: 'batchCommit', info: null });
+
+      return;
+    }
+
+    this.commit(
+      this.pushEntry(
+        prev,
+        this.createEntry(prev, initial.value, prev.present),
+        prev.present,
+        info
+      )
+    );
+
+    this.emitSet({ ...prev, present: initial.value }, info);
+    this.emit({ type: 'batchCommit', info });
+    this.broadcast({ type: 'set', value: prev.present, info });
+  };
+
+  /**
+   * Marks the present as saved. The save point follows its entry through
+   * undo and redo; the next `set` is never coalesced into it.
+   */
+  markSaved = (): void => {
+    const { present, presentInfo } = this.state;
+
+    this.saved = { value: present, info: presentInfo };
+    this.lastSet = null;
+    this.state = { ...this.state };
+    this.notify();
+  };
+
+  /**
+   * Jumps to the saved entry. When it is no longer in history (trimmed or
+   * replaced), the saved state is recorded as a new entry instead.
+   */
+  revertToSaved = (options?: EntryOptions): void => {
+    if (!this.isDirty) return;
+
+    const index = this.getSavedIndex();
+
+    if (index === -1) {
+      this.lastSet = null;
+      this.set(() => this.saved.value, options);
+      this.markSaved();
+    } else {
+      this.goTo(index);
+    }
+  };
+
+  /**
+   * Copies the active history path into a versioned, JSON-serializable
+   * document. Branches that are not on the active path are left out.
+   */
+  exportHistory = (options: ExportHistoryOptions = {}): HistoryDocument<T> => {
+    const { state } = this;
+    const history = this.getHistory();
+
+    return safeStructuredClone({
+      format: HISTORY_FORMAT,
+      formatVersion: HISTORY_FORMAT_VERSION,
+      version: options.version || 0,
+      exportedAt: Date.now(),
+      compressed: state.isCompressed,
+      past: history.past.map((item) => item),
+      present: state.present,
+      future: history.future.map((item) => item),
+      pastInfo: state.pastInfo,
+      presentInfo: state.presentInfo,
+      futureInfo: state.futureInfo,
+    });
+  };
+
+  /**
+   * Replaces the history with a document from `exportHistory`. States are
+   * recorded again with the current options and the imported present becomes
+   * the save point. Invalid documents throw a `HistoryImportError` and leave
+   * the history untouched.
+   */
+  importHistory = (
+    document: unknown,
+    options: ImportHistoryOptions<T> = {}
+  ): void => {
+    const imported = safeStructuredClone(validateHistoryDocument(document));
+    const version = options.version || 0;
+    const { migrate } = options;
+
+    if (imported.version !== version && !migrate) {
+      throw new HistoryImportError(
+        `History version ${imported.version} does not match version ${version}; pass migrate to convert it`
+      );
+    }
+
+    const timeline = [
+      ...imported.past,
+      imported.present,
+      ...imported.future,
+    ].map((item) =>
+      imported.version === version
+        ? (item as T)
+        : migrate!(item, imported.version)
+    );
+    const state = this.rebuildState(
+      timeline,
+      [...imported.pastInfo, imported.presentInfo, ...imported.futureInfo],
+      imported.future.length
+    );
+
+    const discarded = this.discardBatch();
+
+    this.lastSet = null;
+    this.commit(state);
+    this.saved = { value: state.present, info: state.presentInfo };
+
+    if (discarded) this.emit({ type: 'batchRollback' });
+
+    if (!this.isApplyingRemote) {
+      this.broadcast({
+        type: 'import',
+        document: this.exportHistory({ version }),
+      });
+    }
+  };
+
+  /**
+   * Stores the present under `name`, replacing an earlier checkpoint with the
+   * same name. Checkpoints are encoded like history entries but are not part
+   * of it: undo, redo and `maxHistorySize` do not remove them.
+   */
+  createCheckpoint = (
+    name: string,
+    options: CheckpointOptions = {}
+  ): Checkpoint => {
+    const { state } = this;
+    const checkpoint: Checkpoint = {
+      name,
+      timestamp:
+        options.timestamp === undefined ? Date.now() : options.timestamp,
+      meta: options.meta,
+    };
+
+    this.checkpoints.delete(name);
+    this.checkpoints.set(name, {
+      checkpoint,
+      data: this.encode(state, state.present),
+      isCompressed: state.isCompressed,
+    });
+    this.updateCheckpoints();
+
+    return checkpoint;
+  };
+
+  /** Checkpoints in the order they were created. */
+  listCheckpoints = (): Checkpoint[] => {
+    return this.checkpointList;
+  };
+
+  /** Records the state of a checkpoint as a new entry, so it can be undone. */
+  restoreCheckpoint = (name: string, options?: EntryOptions): void => {
+    const stored = this.checkpoints.get(name);
+
+    if (!stored) {
+      throw new RangeError(`Checkpoint "${name}" does not exist`);
+    }
+
+    const value = this.decode(stored.data, stored.isCompressed);
+
+    this.lastSet = null;
+    this.set(() => value, options);
+  };
+
+  /** Returns `false` when there is no checkpoint named `name`. */
+  deleteCheckpoint = (name: string): boolean => {
+    if (!this.checkpoints.delete(name)) return false;
+
+    this.updateCheckpoints();
+
+    return true;
+  };
+
+  /**
+   * Runs `fn` inside a batch. The batch is closed even when `fn` throws, and
+   * changes made before the error are kept as a single history entry.
+   */
+  withBatch = <R>(fn: (state: T) => R, options?: EntryOptions): R => {
+    this.startBatch();
+
+    try {
+      return fn(this.state.present);
+    } finally {
+      this.endBatch(options);
+    }
+  };
+
+  /**
+   * Runs `fn` inside a batch that stays open until the returned promise
+   * settles, and records one entry on success. On rejection the state before
+   * the transaction is restored, unless `rollback` is `false`. A transaction
+   * started while another one is pending, e.g. from its `fn`, runs inside it
+   * like a nested batch: its changes become part of the outer entry.
+   */
+  withTransaction = <R>(
+    fn: (state: T) => R | PromiseLike<R>,
+    options: TransactionOptions = {}
+  ): Promise<R> => {
+    const before = this.state;
+    const generation = this.batchGeneration;
+    let result: Promise<R>;
+
+    this.startBatch();
+
+    try {
+      result = Promise.resolve(fn(this.state.present));
+    } catch (error) {
+      result = Promise.reject(error);
+    }
+
+    return result.then(
+      (value) => {
+        if (this.batchGeneration === generation) {
+          this.endBatch(options);
+        }
+
+        return value;
+      },
+      (error) => {
+        // A reset or a history received from another tab discarded the batch
+        if (this.batchGeneration !== generation) throw error;
+
+        if (options.rollback === false) {
+          this.endBatch(options);
+        } else {
+          this.batchDepth -= 1;
+
+          if (this.batchDepth === 0) {
+            this.batchInitialValue = null;
+            this.batchEntryOptions = undefined;
+          }
+
+          // Only the present and history roll back, a batch opened before
+          // the transaction may have closed since
+          this.commit({ ...before, isBatching: this.batchDepth > 0 });
+
+          if (this.batchDepth === 0) {
+            this.emit({ type: 'batchRollback' });
+          }
+        }
+
+        throw error;
+      }
+    );
+  };
+
+  /** Drops an open batch without recording it, returns whether one was open. */
+  private discardBatch(): boolean {
+    const wasOpen = this.batchDepth > 0;
+
+    this.batchDepth = 0;
+    this.batchInitialValue = null;
+    this.batchEntryOptions = undefined;
+    this.batchGeneration += 1;
+
+    return wasOpen;
+  }
+
+  /** Publishes a changed checkpoint list to subscribers. */
+  private updateCheckpoints(): void {
+    this.checkpointList = Array.from(
+      this.checkpoints.values(),
+      (stored) => stored.checkpoint
+    );
+    this.state = { ...this.state };
+    this.notify();
+  }
+
+  /** Re-encodes compressed checkpoints when the codec is replaced. */
+  private recodeCheckpoints(codec: HistoryCodec): void {
+    const values = new Map<string, unknown>();
+
+    this.checkpoints.forEach((stored, name) => {
+      if (stored.isCompressed) {
+        values.set(name, this.decodeData(stored.data));
+      }
+    });
+
+    this.codec = codec;
+    values.forEach((value, name) => {
+      this.checkpoints.get(name)!.data = this.encodeData(value);
+    });
+  }
+
+  /** Timeline index of the saved entry, `-1` when it is gone. */
+  private getSavedIndex(): number {
+    const { pastInfo, presentInfo, futureInfo } = this.state;
+
+    return [...pastInfo, presentInfo, ...futureInfo].indexOf(this.saved.info);
+  }
+
+  private createInitialState(
+    value: T,
+    info: EntryInfo = createEntryInfo()
+  ): UndoRedoState<T> {
+    if (this.codec !== this.options.codec) {
+      this.recodeCheckpoints(this.options.codec);
+    }
+
+    this.codec = this.options.codec;
+
+    return {
+      past: [],
+      present: this.copyState(value),
+      future: [],
+      pastInfo: [],
+      presentInfo: info,
+      futureInfo: [],
+      isCompressed: this.options.compressHistory,
+      historyStorage: this.options.historyStorage,
+      isBatching: false,
+      tree: this.options.branching ? createTree(info) : null,
+    };
+  }
+
+  private commit(state: UndoRedoState<T>): void {
+    this.state = this.freezePresent(state);
+
+    if (this.hydrationStatus === 'pending') {
+      this.changedBeforeHydration = true;
+    } else if (!state.isBatching) {
+      this.save(state);
+    }
+
+    this.notify();
+  }
+
+  /**
+   * Calls the option callbacks and event listeners after a local change has
+   * been committed.
+   */
+  private emit(event: HistoryEvent<T>): void {
+    if (this.isApplyingRemote) return;
+
+    runCallbacks(this.options, event);
+    this.eventListeners.forEach((listener) => listener(event));
+  }
+
+  /**
+   * Emits `set` for the entry `pushEntry` recorded on top of `prev`, then
+   * `evict` with the entries it dropped from `past`.
+   */
+  private emitSet(prev: UndoRedoState<T>, info: EntryInfo): void {
+    const count = prev.past.length + 1 - this.state.past.length;
+
+    this.emit({
+      type: 'set',
+      prevState: prev.present,
+      nextState: this.state.present,
+      info,
+      merged: false,
+    });
+
+    if (count > 0) {
+      this.emit({
+        type: 'evict',
+        entries: [...prev.pastInfo, prev.presentInfo].slice(0, count),
+      });
+    }
+  }
+
+  /**
+   * Reports a local transition to action listeners and other instances
+   * sharing the channel.
+   */
+  private broadcast(action: SyncAction<T>): void {
+    if (this.isApplyingRemote) return;
+
+    this.actionListeners.forEach((listener) => listener(action));
+
+    if (!this.syncChannel) return;
+
+    const baseRevision = this.syncRevision;
+    const baseWriterId = this.syncWriterId;
+
+    this.syncRevision += 1;
+    this.syncWriterId = this.syncId;
+    this.syncChannel.postMessage({
+      kind: 'action',
+      action,
+      sourceId: this.syncId,
+      baseRevision,
+      baseWriterId,
+      revision: this.syncRevision,
+    });
+  }
+
+  private postSyncState(): void {
+    if (!this.syncChannel) return;
+
+    if (this.pendingEncodings > 0) {
+      this.isSyncStateQueued = true;
+
+      return;
+    }
+
+    this.syncChannel.postMessage({
+      kind: 'state',
+      state: toPersistedHistory(this.resolveEntries(this.state), 0).state,
+      sourceId: this.syncId,
+      writerId: this.syncWriterId,
+      revision: this.syncRevision,
+    });
+  }
+
+  /**
+   * Transitions based on the same revision are replayed. On a conflict the
+   * instance holding the newer revision sends its whole history, which the
+   * others adopt.
+   */
+  private handleSyncMessage(message: SyncMessage<T>): void {
+    if (message.sourceId === this.syncId) return;
+
+    if (message.kind === 'request') {
+      this.postSyncState();
+
+      return;
+    }
+
+    if (message.kind === 'state') {
+      if (
+        isNewerRevision(
+          message.revision,
+          message.writerId,
+          this.syncRevision,
+          this.syncWriterId
+        )
+      ) {
+        this.syncRevision = message.revision;
+        this.syncWriterId = message.writerId;
+        const discarded = this.discardBatch();
+
+        this.commit({ ...message.state, isBatching: false });
+
+        if (discarded) this.emit({ type: 'batchRollback' });
+      }
+
+      return;
+    }
+
+    // A remote change would land in the open batch and the batch entry would
+    // then diverge from the other instances: drop the batch and adopt their
+    // history instead
+    if (this.state.isBatching && this.syncChannel) {
+      this.discardBatch();
+      this.commit({ ...this.state, isBatching: false });
+      this.emit({ type: 'batchRollback' });
+      this.syncChannel.postMessage({ kind: 'request', sourceId: this.syncId });
+
+      return;
+    }
+
+    if (
+      message.baseRevision === this.syncRevision &&
+      message.baseWriterId === this.syncWriterId
+    ) {
+      this.applyRemoteAction(message.action);
+      this.syncRevision = message.revision;
+      this.syncWriterId = message.sourceId;
+    } else if (
+      !isNewerRevision(
+        message.revision,
+        message.sourceId,
+        this.syncRevision,
+        this.syncWriterId
+      )
+    ) {
+      this.postSyncState();
+    }
+  }
+
+  private applyRemoteAction(action: SyncAction<T>): void {
+    this.isApplyingRemote = true;
+
+    try {
+      switch (action.type) {
+        case 'set':
+          this.set(action.value, action.info);
+          break;
+        case 'merge':
+          this.commit(this.mergeEntry(this.state, action.value, action.info));
+          break;
+        case 'replace':
+          this.set(action.value, { skipHistory: true });
+          break;
+        case 'undo':
+          this.undo(action.steps);
+          break;
+        case 'redo':
+          this.redo(action.steps);
+          break;
+        case 'reset':
+          this.reset(action.value, { ...action.info, keepCheckpoints: true });
+          break;
+        case 'switchBranch':
+          this.switchBranch(action.nodeId);
+          break;
+        case 'import':
+          this.importHistory(action.document, {
+            version: action.document.version,
+          });
+          break;
+      }
+    } finally {
+      this.isApplyingRemote = false;
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private hydrate(persist: PersistOptions<T>): void {
+    this.hydrationStatus = 'pending';
+
+    try {
+      const stored = persist.storage.getItem(persist.key);
+
+      if (isPromiseLike(stored)) {
+        stored.then(
+          (value) => this.restore(persist, value),
+          (error) => this.finishHydration('failed', this.state, error)
+        );
+      } else {
+        this.restore(persist, stored);
+      }
+    } catch (error) {
+      this.finishHydration('failed', this.state, error);
+    }
+  }
+
+  /**
+   * Applies stored history. Changes made while an asynchronous storage was
+   * loading win over the stored history and overwrite it.
+   */
+  private restore(persist: PersistOptions<T>, value: unknown): void {
+    if (this.changedBeforeHydration || value === null || value === undefined) {
+      this.finishHydration('hydrated', this.state);
+
+      return;
+    }
+
+    try {
+      const persisted = validatePersistedHistory(value);
+      const version = persist.version || 0;
+
+      if (persisted.version === version) {
+        this.finishHydration('hydrated', {
+          ...(persisted as PersistedHistory<T>).state,
+          isBatching: false,
+        });
+      } else if (persist.migrate) {
+        this.finishHydration(
+          'hydrated',
+          this.migrateState(persisted, persist.migrate)
+        );
+      } else {
+        this.finishHydration('hydrated', this.state);
+      }
+    } catch (error) {
+      this.finishHydration('failed', this.state, error);
+    }
+  }
+
+  private finishHydration(
+    status: HydrationStatus,
+    state: UndoRedoState<T>,
+    error?: unknown
+  ): void {
+    const shouldSave = this.changedBeforeHydration;
+
+    this.hydrationStatus = status;
+    this.changedBeforeHydration = false;
+    this.state = this.freezePresent({ ...state });
+
+    if (error !== undefined) {
+      this.reportPersistError(error);
+    }
+
+    if (shouldSave) {
+      this.save(this.state);
+    }
+
+    this.notify();
+  }
+
+  /**
+   * Rebuilds history saved with another version: every state is decoded,
+   * migrated and recorded again with the current options. Branches that are
+   * not on the active path are dropped.
+   */
+  private migrateState(
+    persisted: PersistedHistory<unknown>,
+    migrate: (state: unknown, version: number) => T
+  ): UndoRedoState<T> {
+    const stored = {
+      ...persisted.state,
+      isBatching: false,
+    } as UndoRedoState<T>;
+    const history = this.createHistory(stored);
+    const timeline = [
+      ...history.past.map((item) => item),
+      stored.present,
+      ...history.future.map((item) => item),
+    ].map((item) => migrate(item, persisted.version));
+
+    return this.rebuildState(
+      timeline,
+      [...stored.pastInfo, stored.presentInfo, ...stored.futureInfo],
+      stored.future.length
+    );
+  }
+
+  /**
+   * Records `timeline` as a fresh history with the current options, keeping
+   * the last `futureLength` states in `future`. History limits apply to
+   * `past` only, once the present is in place.
+   */
+  private rebuildState(
+    timeline: T[],
+    infos: EntryInfo[],
+    futureLength: number
+  ): UndoRedoState<T> {
+    let state = this.createInitialState(timeline[0], infos[0]);
+
+    for (let i = 1; i < timeline.length; i++) {
+      const present = timeline[i];
+
+      state = this.appendEntry(
+        state,
+        this.createEntry(state, state.present, present),
+        present,
+        infos[i]
+      );
+    }
+
+    const count = Math.min(futureLength, state.past.length);
+
+    return this.trimPast(count > 0 ? this.moveBackward(state, count) : state);
+  }
+
+  private save(state: UndoRedoState<T>): void {
+    const { persist } = this.options;
+
+    if (!persist) return;
+
+    if (this.pendingEncodings > 0) {
+      this.isSaveQueued = true;
+
+      return;
+    }
+
+    try {
+      const result = persist.storage.setItem(
+        persist.key,
+        toPersistedHistory(this.resolveEntries(state), persist.version || 0)
+      );
+
+      if (isPromiseLike(result)) {
+        result.then(undefined, (error) => this.reportPersistError(error));
+      }
+    } catch (error) {
+      this.reportPersistError(error);
+    }
+  }
+
+  private reportPersistError(error: unknown): void {
+    const { persist } = this.options;
+
+    if (persist && persist.onError) {
+      persist.onError(error);
+    } else {
+      console.warn('useUndoRedo persist failed', error);
+    }
+  }
+
+  private moveBackward(
+    prev: UndoRedoState<T>,
+    count: number
+  ): UndoRedoState<T> {
+    const targetIndex = prev.past.length - count;
+    let target = prev.present;
+    let i =
+      prev.historyStorage === 'patch' ? prev.past.length - 1 : targetIndex;
+
+    for (; i >= targetIndex; i--) {
+      target = this.stepBackward(prev, prev.past[i], target);
+    }
+
+    const movedEntries =
+      prev.historyStorage === 'patch'
+        ? prev.past.slice(targetIndex)
+        : [
+            ...prev.past.slice(targetIndex + 1),
+            this.encode(prev, prev.present),
+          ];
+
+    return {
+      ...prev,
+      past: prev.past.slice(0, targetIndex),
+      present: target,
+      future: [...movedEntries, ...prev.future],
+      pastInfo: prev.pastInfo.slice(0, targetIndex),
+      presentInfo: prev.pastInfo[targetIndex],
+      futureInfo: [
+        ...prev.pastInfo.slice(targetIndex + 1),
+        prev.presentInfo,
+        ...prev.futureInfo,
+      ],
+    };
+  }
+
+  private moveForward(prev: UndoRedoState<T>, count: number): UndoRedoState<T> {
+    let target = prev.present;
+    let i = prev.historyStorage === 'patch' ? 0 : count - 1;
+
+    for (; i < count; i++) {
+      target = this.stepForward(prev, prev.future[i], target);
+    }
+
+    const movedEntries =
+      prev.historyStorage === 'patch'
+        ? prev.future.slice(0, count)
+        : [this.encode(prev, prev.present), ...prev.future.slice(0, count - 1)];
+
+    return {
+      ...prev,
+      past: [...prev.past, ...movedEntries],
+      present: target,
+      future: prev.future.slice(count),
+      pastInfo: [
+        ...prev.pastInfo,
+        prev.presentInfo,
+        ...prev.futureInfo.slice(0, count - 1),
+      ],
+      presentInfo: prev.futureInfo[count - 1],
+      futureInfo: prev.futureInfo.slice(count),
+    };
+  }
+
+  private createHistory(state: UndoRedoState<T>): History<T> {
+    const pastCache: T[] = [];
+    const futureCache: T[] = [];
+
+    // Patch entries are relative to their neighbour, so states are rebuilt by
+    // walking from the present and memoized for the lifetime of the snapshot.
+    const pastAt = (index: number): T => {
+      if (index in pastCache || !(index in state.past)) {
+        return pastCache[index];
+      }
+
+      let i = index;
+
+      if (state.historyStorage === 'patch') {
+        i = state.past.length - 1;
+        while (i > index && i in pastCache) i--;
+      }
+
+      let current = i + 1 in pastCache ? pastCache[i + 1] : state.present;
+
+      for (; i >= index; i--) {
+        current = this.stepBackward(state, state.past[i], current);
+        pastCache[i] = current;
+      }
+
+      return pastCache[index];
+    };
+
+    const futureAt = (index: number): T => {
+      if (index in futureCache || !(index in state.future)) {
+        return futureCache[index];
+      }
+
+      let i = index;
+
+      if (state.historyStorage === 'patch') {
+        i = 0;
+        while (i < index && i in futureCache) i++;
+      }
+
+      let current = i - 1 in futureCache ? futureCache[i - 1] : state.present;
+
+      for (; i <= index; i++) {
+        current = this.stepForward(state, state.future[i], current);
+        futureCache[i] = current;
+      }
+
+      return futureCache[index];
+    };
+
+    const getEntrySize = (entry: StoredData<T>) => this.getEntrySize(entry);
+    let entries: HistoryEntry<T>[] | null = null;
+    const createHistoryEntry = (
+      info: EntryInfo,
+      getState: () => T
+    ): HistoryEntry<T> => ({
+      ...info,
+      get state() {
+        return getState();
+      },
+    });
+
+    let byteSize: number | null = null;
+
+    return {
+      past: createLazySequence(state.past.length, pastAt),
+      future: createLazySequence(state.future.length, futureAt),
+      get byteSize() {
+        if (byteSize === null) {
+          byteSize = [...state.past, ...state.future].reduce<number>(
+            (sum, entry) => sum + getEntrySize(entry),
+            0
+          );
+        }
+
+        return byteSize;
+      },
+      get entries() {
+        if (!entries) {
+          entries = [
+            ...state.pastInfo.map((info, index) =>
+              createHistoryEntry(info, () => pastAt(index))
+            ),
+            createHistoryEntry(state.presentInfo, () => state.present),
+            ...state.futureInfo.map((info, index) =>
+              createHistoryEntry(info, () => futureAt(index))
+            ),
+          ];
+        }
+
+        return entries;
+      },
+    };
+  }
+
+  private getTimelineState(index: number): T {
+    const { past, present } = this.state;
+    const history = this.getHistory();
+
+    if (index < past.length) return history.past[index];
+
+    return index === past.length
+      ? present
+      : history.future[index - past.length - 1];
+  }
+
+  /**
+   * A `set` is merged only when the previous transition was a local `set`
+   * that recorded an entry, so undo, redo, batches and remote changes always
+   * start a new one.
+   */
+  private shouldCoalesce(prev: UndoRedoState<T>, next: T, now: number) {
+    const { coalesce } = this.options;
+    const { lastSet } = this;
+
+    if (
+      !coalesce ||
+      !lastSet ||
+      lastSet.state !== prev ||
+      prev.past.length === 0 ||
+      this.isApplyingRemote
+    ) {
+      return false;
+    }
+
+    if (coalesce.window !== undefined && now - lastSet.time > coalesce.window) {
+      return false;
+    }
+
+    return coalesce.shouldMerge
+      ? coalesce.shouldMerge(prev.present, next, prev.presentInfo)
+      : coalesce.window !== undefined;
+  }
+
+  /** Keeps the label and meta of the merged entry unless new ones are given. */
+  private createMergedInfo(
+    info: EntryInfo,
+    options: EntryOptions = {}
+  ): EntryInfo {
+    return createEntryInfo({
+      label: options.label === undefined ? info.label : options.label,
+      meta: options.meta || info.meta,
+      timestamp: options.timestamp,
+    });
+  }
+
+  /**
+   * Replaces the present without recording an entry. The last `past` entry
+   * keeps pointing at the state before the merged changes.
+   */
+  private mergeEntry(
+    prev: UndoRedoState<T>,
+    present: T,
+    info: EntryInfo
+  ): UndoRedoState<T> {
+    const { past, tree } = prev;
+    const last = past.length - 1;
+    let entry = past[last];
+
+    if (prev.historyStorage === 'patch') {
+      const older = this.stepBackward(prev, entry, prev.present);
+
+      entry = this.createEntry(prev, older, present);
+    }
+
+    return {
+      ...prev,
+      past: [...past.slice(0, last), entry],
+      present,
+      presentInfo: info,
+      tree: tree && {
+        ...tree,
+        nodes: {
+          ...tree.nodes,
+          [tree.path[last + 1]]: { ...tree.nodes[tree.path[last + 1]], info },
+        },
+      },
+    };
+  }
+
+  /** Applies `mergeIgnored` to a state reached by moving through history. */
+  private carryIgnored(
+    prev: UndoRedoState<T>,
+    next: UndoRedoState<T>
+  ): UndoRedoState<T> {
+    const { mergeIgnored, equalFn } = this.options;
+
+    if (!mergeIgnored) return next;
+
+    const present = mergeIgnored(next.present, prev.present);
+
+    return equalFn(next.present, present)
+      ? next
+      : this.replacePresent(next, this.copyState(present));
+  }
+
+  /**
+   * Swaps the present without recording an entry. Patch entries next to the
+   * present are rebuilt, so neighbouring states stay as they were.
+   */
+  private replacePresent(prev: UndoRedoState<T>, present: T): UndoRedoState<T> {
+    if (prev.historyStorage !== 'patch') return { ...prev, present };
+
+    const { past, future, tree } = prev;
+    const last = past.length - 1;
+    const next = { ...prev, present };
+
+    if (last >= 0) {
+      const older = this.stepBackward(prev, past[last], prev.present);
+
+      next.past = [
+        ...past.slice(0, last),
+        this.createEntry(prev, older, present),
+      ];
+    }
+
+    if (future.length > 0) {
+      const newer = this.stepForward(prev, future[0], prev.present);
+
+      next.future = [
+        this.createEntry(prev, present, newer),
+        ...future.slice(1),
+      ];
+    }
+
+    if (tree) {
+      const detached = { ...tree.detached };
+
+      // Branches that left the present node are patches from it as well
+      tree.nodes[tree.path[past.length]].childIds.forEach((id) => {
+        if (!(id in detached)) return;
+
+        const newer = this.stepForward(prev, detached[id], prev.present);
+
+        detached[id] = this.createEntry(prev, present, newer);
+      });
+
+      next.tree = { ...tree, detached };
+    }
+
+    return next;
+  }
+
+  /**
+   * Appends a `past` entry for a new present and clears the future. In
+   * branching mode the discarded future is kept as a separate branch.
+   */
+  private pushEntry(
+    prev: UndoRedoState<T>,
+    entry: StoredData<T>,
+    present: T,
+    info: EntryInfo
+  ): UndoRedoState<T> {
+    return this.trimPast(this.appendEntry(prev, entry, present, info));
+  }
+
+  private appendEntry(
+    prev: UndoRedoState<T>,
+    entry: StoredData<T>,
+    present: T,
+    info: EntryInfo
+  ): UndoRedoState<T> {
+    const presentIndex = prev.past.length;
+
+    return {
+      ...prev,
+      past: [...prev.past, entry],
+      present,
+      future: [],
+      pastInfo: [...prev.pastInfo, prev.presentInfo],
+      presentInfo: info,
+      futureInfo: [],
+      isBatching: false,
+      tree:
+        prev.tree &&
+        appendNode(
+          detachFuture(prev.tree, presentIndex, prev.future),
+          presentIndex,
+          info
+        ),
+    };
+  }
+
+  /** Drops the oldest `past` entries over the history limits. */
+  private trimPast(state: UndoRedoState<T>): UndoRedoState<T> {
+    const { maxHistorySize, maxHistoryBytes } = this.options;
+    const { past } = state;
+    let overflow = maxHistorySize
+      ? Math.max(0, past.length - maxHistorySize)
+      : 0;
+
+    if (maxHistoryBytes !== undefined) {
+      const sizes = past.map((item) => this.getEntrySize(item));
+      let total = sizes.slice(overflow).reduce((sum, size) => sum + size, 0);
+
+      while (overflow < past.length && total > maxHistoryBytes) {
+        total -= sizes[overflow];
+        overflow += 1;
+      }
+    }
+
+    if (overflow === 0) return state;
+
+    return {
+      ...state,
+      past: past.slice(overflow),
+      pastInfo: state.pastInfo.slice(overflow),
+      tree: state.tree && trimTree(state.tree, overflow),
+    };
+  }
+
+  /**
+   * Encoded entries are measured by their length, others with
+   * `estimateSize`. Results are cached per entry object.
+   */
+  private getEntrySize(entry: StoredData<T>): number {
+    if (typeof entry === 'string') return entry.length * 2;
+
+    if (entry instanceof PendingEntry) {
+      return entry.data === undefined
+        ? this.options.estimateSize(entry.value)
+        : entry.data.length * 2;
+    }
+
+    if (!entry || typeof entry !== 'object') {
+      return this.options.estimateSize(entry);
+    }
+
+    let size = this.entrySizes.get(entry);
+
+    if (size === undefined) {
+      size = this.options.estimateSize(entry);
+      this.entrySizes.set(entry, size);
+    }
+
+    return size;
+  }
+
+  /**
+   * Maps every known node id to its entry in `future` format: the encoded
+   * state in snapshot mode, the patch from its parent in patch mode.
+   */
+  private collectEntries(
+    state: UndoRedoState<T>
+  ): Record<number, StoredData<T>> {
+    const { tree, past, future } = state;
+    const entries = { ...tree!.detached };
+    const presentIndex = past.length;
+    const isPatch = state.historyStorage === 'patch';
+
+    past.forEach((entry, index) => {
+      entries[tree!.path[isPatch ? index + 1 : index]] = entry;
+    });
+    future.forEach((entry, index) => {
+      entries[tree!.path[presentIndex + 1 + index]] = entry;
+    });
+
+    if (!isPatch) {
+      entries[tree!.path[presentIndex]] = this.encode(state, state.present);
+    }
+
+    return entries;
+  }
+
+  /** Creates the `past` entry for moving from `older` to `newer`. */
+  private createEntry(state: UndoRedoState<T>, older: T, newer: T) {
+    if (state.historyStorage === 'patch') {
+      const patch = createPatch(older, newer, this.copyState);
+
+      return state.isCompressed ? this.encodeData(patch) : patch;
+    }
+
+    return this.encode(state, older);
+  }
+
+  /** Rebuilds the state stored by a `past` entry next to `current`. */
+  private stepBackward(
+    state: UndoRedoState<T>,
+    entry: StoredData<T>,
+    current: T
+  ): T {
+    if (state.historyStorage === 'patch') {
+      return applyPatch(
+        current,
+        this.decodePatch(state, entry).inverse,
+        this.copyState
+      );
+    }
+
+    return this.decode(entry, state.isCompressed);
+  }
+
+  /** Rebuilds the state stored by a `future` entry next to `current`. */
+  private stepForward(
+    state: UndoRedoState<T>,
+    entry: StoredData<T>,
+    current: T
+  ): T {
+    if (state.historyStorage === 'patch') {
+      return applyPatch(
+        current,
+        this.decodePatch(state, entry).forward,
+        this.copyState
+      );
+    }
+
+    return this.decode(entry, state.isCompressed);
+  }
+
+  /** Private copy of a value entering history, shared with `immutable`. */
+  private copyState = <V>(value: V): V => {
+    return this.options.immutable ? value : safeStructuredClone(value);
+  };
+
+  private freezePresent(state: UndoRedoState<T>): UndoRedoState<T> {
+    if (this.options.freeze) {
+      deepFreeze(state.present);
+    }
+
+    return state;
+  }
+
+  private encode(state: UndoRedoState<T>, data: T): StoredData<T> {
+    return state.isCompressed ? this.encodeData(data) : this.copyState(data);
+  }
+
+  /**
+   * Runs the codec. An asynchronous result is stored as a `PendingEntry`
+   * that is decoded from the raw value until the encoding finishes.
+   */
+  private encodeData(data: unknown): StoredData<T> {
+    let result: string | PromiseLike<string>;
+
+    try {
+      result = this.codec.encode(data);
+    } catch (error) {
+      throw new CodecError('Failed to encode history entry', error);
+    }
+
+    if (!isPromiseLike<string>(result)) return result;
+
+    const entry = new PendingEntry(this.copyState(data));
+
+    this.pendingEncodings += 1;
+    result
+      .then(
+        (encoded) => {
+          entry.data = encoded;
+        },
+        (error) => {
+          entry.error = new CodecError('Failed to encode history entry', error);
+        }
+      )
+      .then(() => this.finishEncoding());
+
+    return entry as unknown as StoredData<T>;
+  }
+
+  /** Writes the history that waited for asynchronous encodings. */
+  private finishEncoding(): void {
+    this.pendingEncodings -= 1;
+
+    if (this.pendingEncodings > 0) return;
+
+    if (this.isSyncStateQueued) {
+      this.isSyncStateQueued = false;
+      this.postSyncState();
+    }
+
+    if (this.isSaveQueued) {
+      this.isSaveQueued = false;
+
+      if (this.hydrationStatus !== 'pending' && !this.state.isBatching) {
+        this.save(this.state);
+      }
+    }
+  }
+
+  /** Replaces finished `PendingEntry` objects with their encoded data. */
+  private resolveEntries(state: UndoRedoState<T>): UndoRedoState<T> {
+    const resolve = (entry: StoredData<T>): StoredData<T> => {
+      if (!(entry instanceof PendingEntry)) return entry;
+
+      if (entry.error) throw entry.error;
+
+      return entry.data!;
+    };
+    const { tree } = state;
+    const detached: Record<number, StoredData<T>> = {};
+
+    if (tree) {
+      Object.keys(tree.detached).forEach((id) => {
+        detached[Number(id)] = resolve(tree.detached[Number(id)]);
+      });
+    }
+
+    return {
+      ...state,
+      past: state.past.map(resolve),
+      future: state.future.map(resolve),
+      tree: tree && { ...tree, detached },
+    };
+  }
+
+  private decodePatch(
+    state: UndoRedoState<T>,
+    entry: StoredData<T>
+  ): HistoryPatch {
+    return state.isCompressed
+      ? (this.decodeData(entry) as HistoryPatch)
+      : (entry as HistoryPatch);
+  }
+
+  private decode(stored: StoredData<T>, isCompressed: boolean): T {
+    return isCompressed ? (this.decodeData(stored) as T) : (stored as T);
+  }
+
+  private decodeData(stored: StoredData<T>): unknown {
+    if (stored instanceof PendingEntry) {
+      return stored.data === undefined
+        ? this.copyState(stored.value)
+        : this.decodeData(stored.data);
+    }
+
+    try {
+      return this.codec.decode(stored as string);
+    } catch (error) {
+      throw error instanceof CodecError
+        ? error
+        : new CodecError('Failed to decode history entry', error);
+    }
+  }
+}
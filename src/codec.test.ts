@@ -0,0 +1,173 @@
+import {
+  CodecError,
+  HistoryCodec,
+  createLZCodec,
+  jsonCodec,
+  lzCodec,
+  lzCompress,
+  lzDecompress,
+  structuredCodec,
+} from './codec';
+import { createLocalStorage } from './persist';
+import { UndoRedoStore } from './UndoRedoStore';
+
+declare const BigInt: (value: string) => unknown;
+
+describe('codec', () => {
+  it('should round-trip structured-clone-safe types', () => {
+    const value = {
+      date: new Date(1700000000000),
+      map: new Map<string, unknown>([['a', new Set([1, 2])]]),
+      big: BigInt('12345678901234567890'),
+      pattern: /ab+c/gi,
+      missing: undefined,
+      list: [undefined, NaN, Infinity, -0],
+      $t: 'not a tag',
+      $$t: 'escaped',
+    };
+
+    const decoded = structuredCodec.decode(
+      structuredCodec.encode(value) as string
+    ) as typeof value;
+
+    expect(decoded).toEqual(value);
+    expect(decoded.date).toBeInstanceOf(Date);
+    expect(decoded.map.get('a')).toEqual(new Set([1, 2]));
+    expect(decoded.big).toBe(value.big);
+    expect(decoded.pattern.flags).toBe('gi');
+    expect('missing' in decoded).toBe(true);
+    expect(Object.is(decoded.list[3], -0)).toBe(true);
+  });
+
+  it('should round-trip binary data', () => {
+    const floats = new Float64Array([1.5, -2, NaN, 4]);
+    const value = {
+      bytes: new Uint8Array([1, 2, 3]),
+      buffer: new Uint16Array([500, 65535]).buffer,
+      view: new DataView(new Uint8Array([9, 8, 7, 6]).buffer, 1, 2),
+      slice: floats.subarray(1, 3),
+    };
+
+    const decoded = lzCodec.decode(lzCodec.encode(value) as string) as {
+      bytes: Uint8Array;
+      buffer: ArrayBuffer;
+      view: DataView;
+      slice: Float64Array;
+    };
+
+    expect(decoded.bytes).toBeInstanceOf(Uint8Array);
+    expect(Array.from(decoded.bytes)).toEqual([1, 2, 3]);
+    expect(Array.from(new Uint16Array(decoded.buffer))).toEqual([500, 65535]);
+    expect(decoded.view.byteLength).toBe(2);
+    expect(decoded.view.getUint8(0)).toBe(8);
+    expect(Array.from(decoded.slice)).toEqual([-2, NaN]);
+  });
+
+  it('should compress and restore text', () => {
+    const text = `${'undo redo '.repeat(200)}héllo → 😀`;
+    const compressed = lzCompress(text);
+
+    expect(compressed.length).toBeLessThan(text.length / 5);
+    expect(lzDecompress(compressed)).toBe(text);
+    expect(lzDecompress(lzCompress(''))).toBe('');
+  });
+
+  it('should restart the dictionary on long input', () => {
+    let text = '';
+
+    for (let i = 0; i < 20000; i++) {
+      text += i.toString(36);
+    }
+
+    expect(lzDecompress(lzCompress(text))).toBe(text);
+  });
+
+  it('should report invalid data with CodecError', () => {
+    expect(() => lzDecompress('Ā退')).toThrow(CodecError);
+    expect(() => structuredCodec.decode('{"$t":"Unknown"}')).toThrow(
+      CodecError
+    );
+  });
+});
+
+describe('UndoRedoStore with codec', () => {
+  it('should keep Dates and Maps in compressed history', () => {
+    const store = new UndoRedoStore(
+      { updatedAt: new Date(0), tags: new Map([['a', 1]]) },
+      { compressHistory: true, codec: lzCodec }
+    );
+
+    store.set({ updatedAt: new Date(1000), tags: new Map([['b', 2]]) });
+    store.undo();
+
+    const { present } = store.getSnapshot();
+
+    expect(present.updatedAt).toBeInstanceOf(Date);
+    expect(present.updatedAt.getTime()).toBe(0);
+    expect(present.tags.get('a')).toBe(1);
+  });
+
+  it('should throw CodecError when an entry cannot be decoded', () => {
+    const codec: HistoryCodec = {
+      encode: jsonCodec.encode,
+      decode: () => {
+        throw new SyntaxError('corrupted');
+      },
+    };
+    const store = new UndoRedoStore<string>('initial', {
+      compressHistory: true,
+      codec,
+    });
+
+    store.set('state 1');
+
+    expect(() => store.undo()).toThrow(CodecError);
+    expect(store.getSnapshot().present).toBe('state 1');
+    expect(() => store.getHistory().past[0]).toThrow('Failed to decode');
+  });
+
+  it('should save history once asynchronous encodings finish', async () => {
+    const resolvers: (() => void)[] = [];
+    const codec = createLZCodec({
+      encode: (value) =>
+        new Promise<string>((resolve) => {
+          resolvers.push(() => resolve(jsonCodec.encode(value) as string));
+        }),
+      decode: jsonCodec.decode,
+    });
+    const storage = createLocalStorage();
+    const setItem = jest.spyOn(storage, 'setItem');
+    const persist = { key: 'doc', storage };
+    const store = new UndoRedoStore<number>(0, {
+      compressHistory: true,
+      codec,
+      persist,
+    });
+
+    store.set(1);
+    store.set(2);
+    store.undo();
+
+    expect(store.getHistory().past).toEqual([0]);
+    expect(store.getHistory().future).toEqual([2]);
+    expect(setItem).not.toHaveBeenCalled();
+
+    resolvers.forEach((resolve) => resolve());
+    await Promise.resolve();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(setItem).toHaveBeenCalledTimes(1);
+
+    const restored = new UndoRedoStore<number>(-1, {
+      compressHistory: true,
+      codec,
+      persist,
+    });
+
+    expect(restored.getSnapshot().present).toBe(1);
+    expect(restored.getHistory().past).toEqual([0]);
+    expect(restored.getHistory().future).toEqual([2]);
+
+    window.localStorage.clear();
+  });
+});
@@ -0,0 +1,420 @@
+import { isPromiseLike } from './persist';
+import { CompressedData } from './types';
+
+/**
+ * Converts history entries to `CompressedData` when `compressHistory` is
+ * enabled. `encode` may return a promise, e.g. when compression runs in a
+ * worker; `decode` has to be synchronous because undo and redo are.
+ */
+export interface HistoryCodec {
+  encode: (value: unknown) => CompressedData | PromiseLike<CompressedData>;
+  decode: (data: CompressedData) => unknown;
+}
+
+export class CodecError extends Error {
+  readonly cause: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = 'CodecError';
+    this.cause = cause;
+    Object.setPrototypeOf(this, CodecError.prototype);
+  }
+}
+
+/**
+ * Entry whose asynchronous encoding has not finished. The raw value is used
+ * until `data` is set; persistence and sync wait for it.
+ */
+export class PendingEntry {
+  data: CompressedData | undefined;
+  error: CodecError | undefined;
+
+  constructor(readonly value: unknown) {}
+}
+
+/** Plain JSON, the default codec. */
+export const jsonCodec: HistoryCodec = {
+  encode: (value) => JSON.stringify(value),
+  decode: (data) => JSON.parse(data),
+};
+
+declare const BigInt: (value: string) => unknown;
+
+type Tagged = { $t: string; v?: unknown };
+
+// Plain object keys that would look like a tag get an extra `$`
+const TAG_KEY = /^\$+t$/;
+
+// Binary data is stored as its bytes, one character per byte. Views are
+// rebuilt by the global constructor of the same name.
+const BINARY_TYPES = [
+  'ArrayBuffer',
+  'DataView',
+  'Int8Array',
+  'Uint8Array',
+  'Uint8ClampedArray',
+  'Int16Array',
+  'Uint16Array',
+  'Int32Array',
+  'Uint32Array',
+  'Float32Array',
+  'Float64Array',
+  'BigInt64Array',
+  'BigUint64Array',
+];
+
+const getTypeName = (value: object): string =>
+  Object.prototype.toString.call(value).slice(8, -1);
+
+const bytesToString = (bytes: Uint8Array): string => {
+  let result = '';
+
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    result += String.fromCharCode.apply(
+      null,
+      Array.prototype.slice.call(bytes.subarray(i, i + 0x8000))
+    );
+  }
+
+  return result;
+};
+
+const stringToBytes = (data: string): Uint8Array => {
+  const bytes = new Uint8Array(data.length);
+
+  for (let i = 0; i < data.length; i++) {
+    bytes[i] = data.charCodeAt(i);
+  }
+
+  return bytes;
+};
+
+const toBinaryTag = (value: ArrayBuffer | ArrayBufferView): Tagged => {
+  const type = getTypeName(value);
+
+  if (BINARY_TYPES.indexOf(type) === -1) {
+    throw new CodecError(`Cannot encode ${type}`);
+  }
+
+  const bytes = ArrayBuffer.isView(value)
+    ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+    : new Uint8Array(value);
+
+  return { $t: type, v: bytesToString(bytes) };
+};
+
+const fromBinaryTag = ($t: string, v: unknown): unknown => {
+  const { buffer } = stringToBytes(v as string);
+
+  if ($t === 'ArrayBuffer') return buffer;
+
+  const View = (
+    globalThis as unknown as Record<
+      string,
+      (new (buffer: ArrayBuffer) => unknown) | undefined
+    >
+  )[$t];
+
+  if (!View) throw new CodecError(`${$t} is not supported here`);
+
+  return new View(buffer);
+};
+
+const toTagged = (value: unknown): unknown => {
+  if (value === undefined) return { $t: 'undefined' };
+
+  if (typeof value === 'number') {
+    if (value === 0 && 1 / value < 0) return { $t: 'Number', v: '-0' };
+
+    return isFinite(value) ? value : { $t: 'Number', v: `${value}` };
+  }
+
+  if (typeof value === 'bigint') return { $t: 'BigInt', v: `${value}` };
+
+  if (!value || typeof value !== 'object') return value;
+
+  if (Array.isArray(value)) return value.map(toTagged);
+
+  if (value instanceof Date) return { $t: 'Date', v: `${value.getTime()}` };
+
+  if (value instanceof RegExp) {
+    return { $t: 'RegExp', v: [value.source, value.flags] };
+  }
+
+  if (value instanceof Map) {
+    return { $t: 'Map', v: toTagged(Array.from(value.entries())) };
+  }
+
+  if (value instanceof Set) {
+    return { $t: 'Set', v: toTagged(Array.from(value.values())) };
+  }
+
+  if (ArrayBuffer.isView(value) || getTypeName(value) === 'ArrayBuffer') {
+    return toBinaryTag(value as ArrayBuffer | ArrayBufferView);
+  }
+
+  const result: Record<string, unknown> = {};
+
+  Object.keys(value).forEach((key) => {
+    result[TAG_KEY.test(key) ? `$${key}` : key] = toTagged(
+      (value as Record<string, unknown>)[key]
+    );
+  });
+
+  return result;
+};
+
+const fromTagged = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(fromTagged);
+
+  if (!value || typeof value !== 'object') return value;
+
+  const { $t, v } = value as Tagged;
+
+  if (typeof $t === 'string') {
+    switch ($t) {
+      case 'undefined':
+        return undefined;
+      case 'Number':
+        return v === '-0' ? -0 : Number(v);
+      case 'BigInt':
+        return BigInt(v as string);
+      case 'Date':
+        return new Date(Number(v));
+      case 'RegExp':
+        return new RegExp((v as string[])[0], (v as string[])[1]);
+      case 'Map':
+        return new Map(fromTagged(v) as [unknown, unknown][]);
+      case 'Set':
+        return new Set(fromTagged(v) as unknown[]);
+      default:
+        if (BINARY_TYPES.indexOf($t) !== -1) return fromBinaryTag($t, v);
+
+        throw new CodecError(`Unknown type tag "${$t}"`);
+    }
+  }
+
+  const result: Record<string, unknown> = {};
+
+  Object.keys(value).forEach((key) => {
+    result[TAG_KEY.test(key) ? key.slice(1) : key] = fromTagged(
+      (value as Record<string, unknown>)[key]
+    );
+  });
+
+  return result;
+};
+
+/**
+ * JSON with support for `Date`, `Map`, `Set`, `BigInt`, `RegExp`,
+ * `ArrayBuffer`, typed arrays, `DataView`, `undefined` and non-finite numbers.
+ * Like `structuredClone`, class instances are stored as plain objects; cyclic
+ * values and views sharing one buffer are not preserved.
+ */
+export const structuredCodec: HistoryCodec = {
+  encode: (value) => JSON.stringify(toTagged(value)),
+  decode: (data) => fromTagged(JSON.parse(data)),
+};
+
+// Codes are kept below the surrogate range, so the output is a well-formed
+// string that survives `localStorage` and `JSON.stringify`.
+const MAX_CODE = 0xd7ff;
+
+const createDictionary = (): Map<string, number> => {
+  const dictionary = new Map<string, number>();
+
+  for (let i = 0; i < 256; i++) {
+    dictionary.set(String.fromCharCode(i), i);
+  }
+
+  return dictionary;
+};
+
+const toUtf8 = (input: string): string => {
+  let output = '';
+
+  for (let i = 0; i < input.length; i++) {
+    let code = input.charCodeAt(i);
+
+    if (code >= 0xd800 && code < 0xdc00 && i + 1 < input.length) {
+      const low = input.charCodeAt(i + 1);
+
+      if (low >= 0xdc00 && low < 0xe000) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (low - 0xdc00);
+        i++;
+      }
+    }
+
+    if (code < 0x80) {
+      output += String.fromCharCode(code);
+    } else if (code < 0x800) {
+      output += String.fromCharCode(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      output += String.fromCharCode(
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63)
+      );
+    } else {
+      output += String.fromCharCode(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 63),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63)
+      );
+    }
+  }
+
+  return output;
+};
+
+const fromUtf8 = (input: string): string => {
+  let output = '';
+
+  for (let i = 0; i < input.length;) {
+    const byte = input.charCodeAt(i);
+    let code: number;
+
+    if (byte < 0x80) {
+      code = byte;
+      i += 1;
+    } else if (byte < 0xe0) {
+      code = ((byte & 31) << 6) | (input.charCodeAt(i + 1) & 63);
+      i += 2;
+    } else if (byte < 0xf0) {
+      code =
+        ((byte & 15) << 12) |
+        ((input.charCodeAt(i + 1) & 63) << 6) |
+        (input.charCodeAt(i + 2) & 63);
+      i += 3;
+    } else {
+      code =
+        ((byte & 7) << 18) |
+        ((input.charCodeAt(i + 1) & 63) << 12) |
+        ((input.charCodeAt(i + 2) & 63) << 6) |
+        (input.charCodeAt(i + 3) & 63);
+      i += 4;
+    }
+
+    if (code >= 0x10000) {
+      code -= 0x10000;
+      output += String.fromCharCode(
+        0xd800 + (code >> 10),
+        0xdc00 + (code & 1023)
+      );
+    } else {
+      output += String.fromCharCode(code);
+    }
+  }
+
+  return output;
+};
+
+/**
+ * LZW compression of the UTF-8 bytes of `input`, one output character per
+ * code. The dictionary starts over when it reaches `MAX_CODE`.
+ */
+export const lzCompress = (input: string): string => {
+  const bytes = toUtf8(input);
+  let dictionary = createDictionary();
+  let output = '';
+  let word = '';
+
+  for (let i = 0; i < bytes.length; i++) {
+    const char = bytes.charAt(i);
+    const extended = word + char;
+
+    if (dictionary.has(extended)) {
+      word = extended;
+      continue;
+    }
+
+    output += String.fromCharCode(dictionary.get(word)!);
+
+    if (dictionary.size > MAX_CODE) {
+      dictionary = createDictionary();
+    } else {
+      dictionary.set(extended, dictionary.size);
+    }
+
+    word = char;
+  }
+
+  if (word) {
+    output += String.fromCharCode(dictionary.get(word)!);
+  }
+
+  return output;
+};
+
+export const lzDecompress = (input: string): string => {
+  if (!input) return '';
+
+  let dictionary: string[] = [];
+  const reset = () => {
+    dictionary = [];
+
+    for (let i = 0; i < 256; i++) {
+      dictionary.push(String.fromCharCode(i));
+    }
+  };
+
+  reset();
+
+  let word = dictionary[input.charCodeAt(0)];
+
+  if (word === undefined) {
+    throw new CodecError('Invalid compressed data');
+  }
+
+  let output = word;
+
+  for (let i = 1; i < input.length; i++) {
+    const code = input.charCodeAt(i);
+
+    if (dictionary.length > MAX_CODE) {
+      reset();
+      word = dictionary[code];
+
+      if (word === undefined) {
+        throw new CodecError('Invalid compressed data');
+      }
+
+      output += word;
+      continue;
+    }
+
+    let entry: string;
+
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+    } else if (code === dictionary.length) {
+      entry = word + word.charAt(0);
+    } else {
+      throw new CodecError('Invalid compressed data');
+    }
+
+    output += entry;
+    dictionary.push(word + entry.charAt(0));
+    word = entry;
+  }
+
+  return fromUtf8(output);
+};
+
+/** Compresses the output of another codec (`structuredCodec` by default). */
+export const createLZCodec = (
+  inner: HistoryCodec = structuredCodec
+): HistoryCodec => ({
+  encode: (value) => {
+    const encoded = inner.encode(value);
+
+    return isPromiseLike<CompressedData>(encoded)
+      ? encoded.then(lzCompress)
+      : lzCompress(encoded);
+  },
+  decode: (data) => inner.decode(lzDecompress(data)),
+});
+
+export const lzCodec = createLZCodec();
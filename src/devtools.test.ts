@@ -0,0 +1,102 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { createElement } from 'react';
+import { UndoRedoStore } from './UndoRedoStore';
+import { UndoRedoDevtools, describeChanges } from './devtools';
+import { getDevtoolsHook, registerDevtools } from './devtoolsHook';
+
+describe('UndoRedoDevtools', () => {
+  it('should list the timeline and jump on click', () => {
+    const store = new UndoRedoStore({ title: '' });
+
+    store.set({ title: 'a' }, { label: 'Type a' });
+    store.set({ title: 'ab' }, { label: 'Type b' });
+    store.undo();
+
+    const { container } = render(createElement(UndoRedoDevtools, { store }));
+
+    expect(container.textContent).toContain('1 past · 1 future · snapshot');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Type b' }));
+
+    expect(store.getSnapshot().present).toEqual({ title: 'ab' });
+
+    fireEvent.click(screen.getByRole('button', { name: '#0' }));
+
+    expect(store.getSnapshot().present).toEqual({ title: '' });
+  });
+
+  it('should show the changes of an entry', () => {
+    const store = new UndoRedoStore({ title: '', done: false });
+
+    store.set({ title: 'Buy milk', done: false }, { label: 'Rename' });
+
+    const { container } = render(createElement(UndoRedoDevtools, { store }));
+
+    fireEvent.click(screen.getByTitle('Show changes'));
+
+    expect(container.querySelector('pre')!.textContent).toBe(
+      '~ title: "Buy milk"'
+    );
+  });
+
+  it('should show batch and compression status', () => {
+    const store = new UndoRedoStore(0, { compressHistory: true });
+    const { container } = render(createElement(UndoRedoDevtools, { store }));
+
+    act(() => {
+      store.startBatch();
+    });
+
+    expect(container.textContent).toContain('compressed · batching');
+  });
+
+  it('should inspect instances registered by name', () => {
+    const editor = new UndoRedoStore('editor');
+    const canvas = new UndoRedoStore('canvas');
+    const unregisterEditor = registerDevtools('editor', editor);
+    const unregisterCanvas = registerDevtools('canvas', canvas);
+
+    editor.set('edited', { label: 'Edit text' });
+
+    const { container } = render(
+      createElement(UndoRedoDevtools, { name: 'editor' })
+    );
+
+    expect(container.textContent).toContain('Edit text');
+
+    fireEvent.change(screen.getByLabelText('Instance'), {
+      target: { value: 'canvas' },
+    });
+
+    expect(container.textContent).not.toContain('Edit text');
+
+    act(() => {
+      unregisterEditor();
+      unregisterCanvas();
+    });
+
+    expect(container.textContent).toContain('No instances registered');
+  });
+});
+
+describe('devtools hook', () => {
+  it('should be shared through the global', () => {
+    const store = new UndoRedoStore(1);
+    const unregister = registerDevtools('counter', store);
+    const global = globalThis as { __UNDO_REDO_DEVTOOLS__?: unknown };
+
+    expect(global.__UNDO_REDO_DEVTOOLS__).toBe(getDevtoolsHook());
+    expect(getDevtoolsHook().stores.counter).toBe(store);
+
+    unregister();
+
+    expect(getDevtoolsHook().stores.counter).toBeUndefined();
+  });
+
+  it('should describe changes between states', () => {
+    expect(describeChanges({ a: 1, b: [1] }, { a: 2, b: [] })).toEqual([
+      '~ a: 2',
+      '- b.0',
+    ]);
+  });
+});
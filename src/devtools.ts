@@ -0,0 +1,198 @@
+import {
+  CSSProperties,
+  ReactElement,
+  createElement,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { UndoRedoStore } from './UndoRedoStore';
+import { getDevtoolsHook } from './devtoolsHook';
+import { PatchOperation, createPatch } from './patch';
+
+export { getDevtoolsHook, registerDevtools } from './devtoolsHook';
+export type { DevtoolsHook } from './devtoolsHook';
+
+/** The part of `UndoRedoStore` the inspector reads, for any state type. */
+export type InspectedStore = Pick<
+  UndoRedoStore<unknown>,
+  'subscribe' | 'getSnapshot' | 'getHistory' | 'getHydrationStatus' | 'goTo'
+>;
+
+export interface UndoRedoDevtoolsProps {
+  /** Store to inspect, instead of the instances registered by name. */
+  store?: InspectedStore;
+  /** Registered instance selected initially, defaults to the first one. */
+  name?: string;
+  style?: CSSProperties;
+}
+
+const MAX_VALUE_LENGTH = 80;
+
+const formatValue = (value: unknown): string => {
+  let text: string;
+
+  try {
+    text = value === undefined ? 'undefined' : JSON.stringify(value);
+  } catch {
+    text = String(value);
+  }
+
+  return text.length > MAX_VALUE_LENGTH
+    ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…`
+    : text;
+};
+
+const formatOperation = (operation: PatchOperation): string => {
+  const path = operation.path.join('.') || '(root)';
+
+  return operation.op === 'remove'
+    ? `- ${path}`
+    : `${operation.op === 'add' ? '+' : '~'} ${path}: ${formatValue(
+        operation.value
+      )}`;
+};
+
+/** Changes between two neighbouring states, one line per operation. */
+export const describeChanges = (prev: unknown, next: unknown): string[] =>
+  createPatch(prev, next).forward.map(formatOperation);
+
+const styles: Record<string, CSSProperties> = {
+  panel: {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    border: '1px solid #ccc',
+    padding: 8,
+  },
+  status: { color: '#666', marginBottom: 8 },
+  list: { listStyle: 'none', margin: 0, padding: 0 },
+  entry: { padding: '2px 0' },
+  present: { padding: '2px 0', fontWeight: 'bold' },
+  future: { padding: '2px 0', opacity: 0.5 },
+  diff: { margin: '2px 0 4px 16px', whiteSpace: 'pre-wrap' },
+};
+
+const StorePanel = ({ store }: { store: InspectedStore }): ReactElement => {
+  const state = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    store.getSnapshot
+  );
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const { entries } = store.getHistory();
+  const presentIndex = state.past.length;
+
+  const status = [
+    `${state.past.length} past`,
+    `${state.future.length} future`,
+    state.historyStorage,
+    state.isCompressed ? 'compressed' : 'uncompressed',
+    state.isBatching ? 'batching' : null,
+    store.getHydrationStatus() !== 'hydrated'
+      ? store.getHydrationStatus()
+      : null,
+  ].filter(Boolean);
+
+  const renderEntry = (index: number): ReactElement => {
+    const entry = entries[index];
+    const label = entry.label === undefined ? `#${index}` : entry.label;
+    const style =
+      index === presentIndex
+        ? styles.present
+        : index > presentIndex
+          ? styles.future
+          : styles.entry;
+
+    return createElement(
+      'li',
+      { key: index, style },
+      createElement(
+        'button',
+        {
+          type: 'button',
+          title: 'Jump to this entry',
+          onClick: () => store.goTo(index),
+        },
+        label
+      ),
+      ` ${new Date(entry.timestamp).toLocaleTimeString()} `,
+      index > 0 &&
+        createElement(
+          'button',
+          {
+            type: 'button',
+            title: 'Show changes',
+            'aria-expanded': expanded === index,
+            onClick: () => setExpanded(expanded === index ? null : index),
+          },
+          'Δ'
+        ),
+      expanded === index &&
+        createElement(
+          'pre',
+          { style: styles.diff },
+          describeChanges(entries[index - 1].state, entry.state).join('\n') ||
+            '(no changes)'
+        )
+    );
+  };
+
+  return createElement(
+    'div',
+    null,
+    createElement('div', { style: styles.status }, status.join(' · ')),
+    createElement(
+      'ol',
+      { start: 0, style: styles.list },
+      entries.map((_, index) => renderEntry(index))
+    )
+  );
+};
+
+/**
+ * Timeline inspector for debugging: lists past, present and future entries
+ * with labels, shows the changes of an entry and jumps to it on click.
+ * Without `store`, it inspects the instances registered by name through the
+ * `devtools` option or `registerDevtools`.
+ */
+export const UndoRedoDevtools = ({
+  store,
+  name,
+  style,
+}: UndoRedoDevtoolsProps): ReactElement => {
+  const hook = getDevtoolsHook();
+  const stores = useSyncExternalStore(
+    hook.subscribe,
+    () => hook.stores,
+    () => hook.stores
+  );
+  const [selected, setSelected] = useState(name);
+  const names = Object.keys(stores);
+  const current =
+    selected !== undefined && selected in stores ? selected : names[0];
+  const inspected = store || (current === undefined ? null : stores[current]);
+
+  return createElement(
+    'div',
+    { style: { ...styles.panel, ...style } },
+    !store &&
+      names.length > 1 &&
+      createElement(
+        'select',
+        {
+          value: current,
+          'aria-label': 'Instance',
+          onChange: (event: { target: { value: string } }) =>
+            setSelected(event.target.value),
+        },
+        names.map((item) =>
+          createElement('option', { key: item, value: item }, item)
+        )
+      ),
+    inspected
+      ? createElement(StorePanel, {
+          key: store ? undefined : current,
+          store: inspected,
+        })
+      : 'No instances registered'
+  );
+};
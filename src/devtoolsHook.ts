@@ -0,0 +1,68 @@
+import type { UndoRedoStore } from './UndoRedoStore';
+
+type Listener = () => void;
+
+/**
+ * Registry of named instances shared through the `__UNDO_REDO_DEVTOOLS__`
+ * global, so `UndoRedoDevtools` finds them even when it is loaded from a
+ * separate bundle.
+ */
+export interface DevtoolsHook {
+  /** Registered stores by name, replaced on every change. */
+  stores: Record<string, UndoRedoStore<unknown>>;
+  register: (name: string, store: UndoRedoStore<unknown>) => () => void;
+  subscribe: (listener: Listener) => () => void;
+}
+
+type DevtoolsGlobal = { __UNDO_REDO_DEVTOOLS__?: DevtoolsHook };
+
+const createDevtoolsHook = (): DevtoolsHook => {
+  const listeners = new Set<Listener>();
+  const hook: DevtoolsHook = {
+    stores: {},
+    register: (name, store) => {
+      hook.stores = { ...hook.stores, [name]: store };
+      listeners.forEach((listener) => listener());
+
+      return () => {
+        if (hook.stores[name] !== store) return;
+
+        const stores = { ...hook.stores };
+
+        delete stores[name];
+        hook.stores = stores;
+        listeners.forEach((listener) => listener());
+      };
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+
+  return hook;
+};
+
+/** Returns the global registry, creating it on first use. */
+export const getDevtoolsHook = (): DevtoolsHook => {
+  const scope = globalThis as DevtoolsGlobal;
+
+  if (!scope.__UNDO_REDO_DEVTOOLS__) {
+    scope.__UNDO_REDO_DEVTOOLS__ = createDevtoolsHook();
+  }
+
+  return scope.__UNDO_REDO_DEVTOOLS__;
+};
+
+/**
+ * Lists a store in `UndoRedoDevtools` under `name`; a later registration with
+ * the same name replaces it. Returns a function that removes it again.
+ */
+export const registerDevtools = <T>(
+  name: string,
+  store: UndoRedoStore<T>
+): (() => void) =>
+  getDevtoolsHook().register(name, store as unknown as UndoRedoStore<unknown>);
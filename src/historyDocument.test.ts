@@ -0,0 +1,218 @@
+import { lzCodec } from './codec';
+import {
+  HISTORY_FORMAT_VERSION,
+  HistoryImportError,
+  validateHistoryDocument,
+} from './historyDocument';
+import { UndoRedoStore } from './UndoRedoStore';
+
+const createStore = () => {
+  const store = new UndoRedoStore({ count: 0 });
+
+  store.set({ count: 1 }, { label: 'one' });
+  store.set({ count: 2 }, { label: 'two', meta: { source: 'test' } });
+  store.set({ count: 3 });
+  store.undo();
+
+  return store;
+};
+
+describe('validateHistoryDocument', () => {
+  const valid = () =>
+    JSON.parse(JSON.stringify(createStore().exportHistory())) as Record<
+      string,
+      unknown
+    >;
+
+  it('should accept an exported document', () => {
+    const document = valid();
+
+    expect(validateHistoryDocument(document)).toBe(document);
+  });
+
+  it.each([
+    ['null', null, 'Not an undo/redo history document'],
+    [
+      'another format',
+      { format: 'other' },
+      'Not an undo/redo history document',
+    ],
+    [
+      'a newer format',
+      { formatVersion: HISTORY_FORMAT_VERSION + 1 },
+      'newer than the supported format',
+    ],
+    ['a fractional format', { formatVersion: 1.5 }, 'formatVersion'],
+    ['a missing version', { version: '1' }, 'version must be a number'],
+    ['a missing past', { past: undefined }, 'past must be an array'],
+    [
+      'mismatched entry info',
+      { futureInfo: [] },
+      'futureInfo must be an array with one item per future state',
+    ],
+    [
+      'an info without timestamp',
+      { pastInfo: [{}, {}] },
+      'pastInfo[0] needs a numeric timestamp',
+    ],
+    [
+      'a non-string label',
+      { presentInfo: { timestamp: 1, label: 2 } },
+      'presentInfo.label must be a string',
+    ],
+  ])('should reject %s', (_, patch, message) => {
+    const document = patch === null ? null : { ...valid(), ...patch };
+
+    expect(() => validateHistoryDocument(document)).toThrow(HistoryImportError);
+    expect(() => validateHistoryDocument(document)).toThrow(message);
+  });
+
+  it('should reject a document without present', () => {
+    const document = valid();
+
+    delete document.present;
+
+    expect(() => validateHistoryDocument(document)).toThrow(
+      'present is missing'
+    );
+  });
+});
+
+describe('UndoRedoStore exportHistory and importHistory', () => {
+  it('should export a JSON-serializable copy of the timeline', () => {
+    const store = createStore();
+    const document = store.exportHistory({ version: 2 });
+
+    expect(document).toMatchObject({
+      format: 'use-undo-redo/history',
+      formatVersion: HISTORY_FORMAT_VERSION,
+      version: 2,
+      compressed: false,
+      past: [{ count: 0 }, { count: 1 }],
+      present: { count: 2 },
+      future: [{ count: 3 }],
+    });
+    expect(document.pastInfo.map((info) => info.label)).toEqual([
+      undefined,
+      'one',
+    ]);
+    expect(document.presentInfo.meta).toEqual({ source: 'test' });
+    expect(JSON.parse(JSON.stringify(document))).toEqual(
+      JSON.parse(JSON.stringify(document))
+    );
+
+    document.present.count = 10;
+
+    expect(store.getSnapshot().present).toEqual({ count: 2 });
+  });
+
+  it('should restore an exported document with other history options', () => {
+    const document = JSON.parse(JSON.stringify(createStore().exportHistory()));
+    const store = new UndoRedoStore(
+      { count: -1 },
+      { compressHistory: true, codec: lzCodec, historyStorage: 'patch' }
+    );
+
+    store.importHistory(document);
+
+    expect(store.getSnapshot().present).toEqual({ count: 2 });
+    expect(store.getSnapshot().isCompressed).toBe(true);
+    expect(store.getHistory().past).toEqual([{ count: 0 }, { count: 1 }]);
+    expect(store.getHistory().future).toEqual([{ count: 3 }]);
+    expect(store.getHistory().entries.map((entry) => entry.label)).toEqual([
+      undefined,
+      'one',
+      'two',
+      undefined,
+    ]);
+    expect(store.isDirty).toBe(false);
+
+    store.undo(2);
+
+    expect(store.getSnapshot().present).toEqual({ count: 0 });
+    expect(store.isDirty).toBe(true);
+  });
+
+  it('should report compressed exports', () => {
+    const store = new UndoRedoStore('a', { compressHistory: true });
+
+    store.set('b');
+
+    expect(store.exportHistory()).toMatchObject({
+      compressed: true,
+      past: ['a'],
+      present: 'b',
+    });
+  });
+
+  it('should migrate states exported with another version', () => {
+    const source = new UndoRedoStore<{ count: number }>({ count: 1 });
+
+    source.set({ count: 2 });
+
+    const document = source.exportHistory({ version: 1 });
+    const store = new UndoRedoStore({ value: 0 });
+    const migrate = jest.fn((state: unknown, version: number) => ({
+      value: (state as { count: number }).count * 10 + version,
+    }));
+
+    expect(() => store.importHistory(document, { version: 2 })).toThrow(
+      'History version 1 does not match version 2'
+    );
+
+    store.importHistory(document, { version: 2, migrate });
+
+    expect(migrate).toHaveBeenCalledTimes(2);
+    expect(store.getSnapshot().present).toEqual({ value: 21 });
+    expect(store.getHistory().past).toEqual([{ value: 11 }]);
+  });
+
+  it('should leave the history untouched when the document is invalid', () => {
+    const store = createStore();
+    const before = store.getSnapshot();
+
+    expect(() =>
+      store.importHistory({ ...store.exportHistory(), past: 'corrupt' })
+    ).toThrow(HistoryImportError);
+    expect(store.getSnapshot()).toBe(before);
+  });
+
+  it('should apply maxHistorySize and drop an open batch', () => {
+    const document = createStore().exportHistory();
+    const store = new UndoRedoStore({ count: -1 }, { maxHistorySize: 1 });
+
+    store.startBatch();
+    store.set({ count: 100 });
+    store.importHistory(document);
+
+    expect(store.getSnapshot().isBatching).toBe(false);
+    expect(store.getHistory().past).toEqual([{ count: 1 }]);
+    expect(store.getHistory().future).toEqual([{ count: 3 }]);
+
+    store.endBatch();
+
+    expect(store.getSnapshot().present).toEqual({ count: 2 });
+  });
+
+  it('should trim only past when the future exceeds maxHistorySize', () => {
+    const source = new UndoRedoStore(0);
+
+    source.set(1);
+    source.set(2);
+    source.set(3);
+    source.undo(2);
+
+    const store = new UndoRedoStore(-1, { maxHistorySize: 1 });
+
+    store.importHistory(source.exportHistory());
+
+    expect(store.getSnapshot().present).toBe(1);
+    expect(store.getHistory().past).toEqual([0]);
+    expect(store.getHistory().future).toEqual([2, 3]);
+    expect(store.isDirty).toBe(false);
+
+    store.redo(2);
+
+    expect(store.getSnapshot().present).toBe(3);
+  });
+});
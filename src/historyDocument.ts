@@ -0,0 +1,128 @@
+import { EntryInfo } from './types';
+
+export const HISTORY_FORMAT = 'use-undo-redo/history';
+
+/** Version of the document layout written by `exportHistory`. */
+export const HISTORY_FORMAT_VERSION = 1;
+
+/**
+ * Portable copy of the active history path. States are stored decoded, so a
+ * document can be imported with other `codec`, `compressHistory` or
+ * `historyStorage` options; it is JSON-serializable when the states are.
+ */
+export interface HistoryDocument<T = unknown> {
+  format: typeof HISTORY_FORMAT;
+  formatVersion: number;
+  /** Version of the state shape, see `ExportHistoryOptions`. */
+  version: number;
+  exportedAt: number;
+  /** Whether the exporting instance compressed its history. */
+  compressed: boolean;
+  past: T[];
+  present: T;
+  future: T[];
+  pastInfo: EntryInfo[];
+  presentInfo: EntryInfo;
+  futureInfo: EntryInfo[];
+}
+
+export interface ExportHistoryOptions {
+  /** Version of the state shape written to the document, defaults to `0`. */
+  version?: number;
+}
+
+export interface ImportHistoryOptions<T> {
+  /** Version of the state shape this instance expects, defaults to `0`. */
+  version?: number;
+  /**
+   * Converts a state exported with another `version`. It is called for every
+   * state of the document; without it, such documents are rejected.
+   */
+  migrate?: (state: unknown, version: number) => T;
+}
+
+export class HistoryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryImportError';
+    Object.setPrototypeOf(this, HistoryImportError.prototype);
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const checkInfo = (value: unknown, field: string): void => {
+  if (!isObject(value) || typeof value.timestamp !== 'number') {
+    throw new HistoryImportError(`${field} needs a numeric timestamp`);
+  }
+
+  if (value.label !== undefined && typeof value.label !== 'string') {
+    throw new HistoryImportError(`${field}.label must be a string`);
+  }
+
+  if (value.meta !== undefined && !isObject(value.meta)) {
+    throw new HistoryImportError(`${field}.meta must be an object`);
+  }
+};
+
+const checkEntries = (
+  document: Record<string, unknown>,
+  states: 'past' | 'future',
+  infos: 'pastInfo' | 'futureInfo'
+): void => {
+  const items = document[states];
+  const info = document[infos];
+
+  if (!Array.isArray(items)) {
+    throw new HistoryImportError(`${states} must be an array`);
+  }
+
+  if (!Array.isArray(info) || info.length !== items.length) {
+    throw new HistoryImportError(
+      `${infos} must be an array with one item per ${states} state`
+    );
+  }
+
+  info.forEach((item, index) => checkInfo(item, `${infos}[${index}]`));
+};
+
+/**
+ * Checks that `value` is a history document this release can read and
+ * returns it typed. Throws a `HistoryImportError` naming the first problem.
+ */
+export const validateHistoryDocument = (value: unknown): HistoryDocument => {
+  if (!isObject(value) || value.format !== HISTORY_FORMAT) {
+    throw new HistoryImportError('Not an undo/redo history document');
+  }
+
+  const { formatVersion } = value;
+
+  if (
+    typeof formatVersion !== 'number' ||
+    formatVersion < 1 ||
+    formatVersion % 1 !== 0
+  ) {
+    throw new HistoryImportError('formatVersion must be a positive integer');
+  }
+
+  if (formatVersion > HISTORY_FORMAT_VERSION) {
+    throw new HistoryImportError(
+      `History format ${formatVersion} is newer than the supported format ${HISTORY_FORMAT_VERSION}`
+    );
+  }
+
+  if (typeof value.version !== 'number') {
+    throw new HistoryImportError('version must be a number');
+  }
+
+  if (!('present' in value)) {
+    throw new HistoryImportError('present is missing');
+  }
+
+  checkEntries(value, 'past', 'pastInfo');
+  checkEntries(value, 'future', 'futureInfo');
+  checkInfo(value.presentInfo, 'presentInfo');
+
+  return value as unknown as HistoryDocument;
+};
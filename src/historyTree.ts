@@ -0,0 +1,205 @@
+import { EntryInfo, StoredData } from './types';
+
+export interface HistoryNode {
+  id: number;
+  parentId: number | null;
+  childIds: number[];
+  /** Child that was last on the active path, followed when switching back. */
+  activeChildId: number | null;
+  /** Label, timestamp and meta of the change that created the node. */
+  info: EntryInfo;
+}
+
+/**
+ * Branch structure kept next to the linear `past`/`future` arrays.
+ *
+ * `path` lists node ids of the active path (`[...past, present, ...future]`),
+ * so undo/redo only move the present index and never touch the tree. Entries
+ * of nodes that left the active path are kept in `detached` in the same
+ * format as `future` entries.
+ */
+export interface HistoryTree<T> {
+  nodes: Record<number, HistoryNode>;
+  path: number[];
+  detached: Record<number, StoredData<T>>;
+  nextId: number;
+}
+
+export interface HistoryTreeNode {
+  id: number;
+  children: HistoryTreeNode[];
+  info: EntryInfo;
+  isCurrent: boolean;
+  isOnActivePath: boolean;
+}
+
+const createNode = (
+  id: number,
+  parentId: number | null,
+  info: EntryInfo
+): HistoryNode => ({
+  id,
+  parentId,
+  childIds: [],
+  activeChildId: null,
+  info,
+});
+
+export const createTree = <T>(info: EntryInfo): HistoryTree<T> => ({
+  nodes: { 0: createNode(0, null, info) },
+  path: [0],
+  detached: {},
+  nextId: 1,
+});
+
+/** Moves nodes after the present off the active path, keeping their entries. */
+export const detachFuture = <T>(
+  tree: HistoryTree<T>,
+  presentIndex: number,
+  future: StoredData<T>[]
+): HistoryTree<T> => {
+  if (tree.path.length === presentIndex + 1) return tree;
+
+  const detached = { ...tree.detached };
+
+  tree.path.slice(presentIndex + 1).forEach((id, index) => {
+    detached[id] = future[index];
+  });
+
+  return {
+    ...tree,
+    path: tree.path.slice(0, presentIndex + 1),
+    detached,
+  };
+};
+
+/** Adds a child of the present node and makes it the new present. */
+export const appendNode = <T>(
+  tree: HistoryTree<T>,
+  presentIndex: number,
+  info: EntryInfo
+): HistoryTree<T> => {
+  const id = tree.nextId;
+  const parentId = tree.path[presentIndex];
+  const parent = tree.nodes[parentId];
+
+  return {
+    nodes: {
+      ...tree.nodes,
+      [parentId]: {
+        ...parent,
+        childIds: [...parent.childIds, id],
+        activeChildId: id,
+      },
+      [id]: createNode(id, parentId, info),
+    },
+    path: [...tree.path.slice(0, presentIndex + 1), id],
+    detached: tree.detached,
+    nextId: id + 1,
+  };
+};
+
+const collectSubtree = (
+  nodes: Record<number, HistoryNode>,
+  id: number,
+  result: number[] = []
+): number[] => {
+  result.push(id);
+  nodes[id].childIds.forEach((childId) =>
+    collectSubtree(nodes, childId, result)
+  );
+
+  return result;
+};
+
+/**
+ * Drops the first `count` nodes of the active path together with every branch
+ * that hangs off them, making the next path node the new root.
+ */
+export const trimTree = <T>(
+  tree: HistoryTree<T>,
+  count: number
+): HistoryTree<T> => {
+  if (count <= 0) return tree;
+
+  const rootId = tree.path[count];
+  const nodes: Record<number, HistoryNode> = {};
+  const detached: Record<number, StoredData<T>> = {};
+
+  collectSubtree(tree.nodes, rootId).forEach((id) => {
+    nodes[id] = tree.nodes[id];
+
+    if (id in tree.detached) {
+      detached[id] = tree.detached[id];
+    }
+  });
+
+  nodes[rootId] = { ...nodes[rootId], parentId: null };
+
+  return {
+    nodes,
+    path: tree.path.slice(count),
+    detached,
+    nextId: tree.nextId,
+  };
+};
+
+/** Returns node ids from the root down to `id`. */
+export const getNodePath = <T>(tree: HistoryTree<T>, id: number): number[] => {
+  const path: number[] = [];
+  let current: number | null = id;
+
+  while (current !== null) {
+    path.unshift(current);
+    current = tree.nodes[current].parentId;
+  }
+
+  return path;
+};
+
+/** Continues `path` by following the last active child of each node. */
+export const extendPath = <T>(
+  tree: HistoryTree<T>,
+  path: number[]
+): number[] => {
+  const result = path.slice();
+  let next = tree.nodes[result[result.length - 1]].activeChildId;
+
+  while (next !== null) {
+    result.push(next);
+    next = tree.nodes[next].activeChildId;
+  }
+
+  return result;
+};
+
+/** Marks every node of `path` as the active child of its parent. */
+export const activatePath = <T>(
+  tree: HistoryTree<T>,
+  path: number[]
+): Record<number, HistoryNode> => {
+  const nodes = { ...tree.nodes };
+
+  for (let i = 0; i < path.length - 1; i++) {
+    nodes[path[i]] = { ...nodes[path[i]], activeChildId: path[i + 1] };
+  }
+
+  return nodes;
+};
+
+export const buildTreeView = <T>(
+  tree: HistoryTree<T>,
+  presentIndex: number
+): HistoryTreeNode => {
+  const currentId = tree.path[presentIndex];
+
+  const build = (id: number): HistoryTreeNode => ({
+    id,
+    children: tree.nodes[id].childIds.map(build),
+    info: tree.nodes[id].info,
+    isCurrent: id === currentId,
+    isOnActivePath: tree.path.indexOf(id) !== -1,
+  });
+
+  return build(tree.path[0]);
+};
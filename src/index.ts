@@ -1 +1,100 @@
 export { useUndoRedo } from './useUndoRedo';
+export { UndoRedoStore } from './UndoRedoStore';
+export { useUndoRedoCommands } from './useUndoRedoCommands';
+export { useUndoRedoReducer } from './useUndoRedoReducer';
+export { UndoRedoActionTypes, undoRedoActions, undoable } from './undoable';
+export type {
+  Reducer,
+  UndoRedoAction,
+  UndoableOptions,
+  UndoableState,
+} from './undoable';
+export { useUndoRedoShortcuts } from './useUndoRedoShortcuts';
+export { useGlobalUndoRedo } from './useGlobalUndoRedo';
+export { UndoRedoProvider } from './UndoRedoProvider';
+export type { UndoRedoProviderProps } from './UndoRedoProvider';
+export { UndoRedoCoordinator } from './UndoRedoCoordinator';
+export type {
+  CoordinatorState,
+  ScopeAction,
+  UndoRedoScope,
+} from './UndoRedoCoordinator';
+export { CommandStore } from './CommandStore';
+export type {
+  Options,
+  UndoRedoState,
+  History,
+  UndoRedoResult,
+  UndoRedoReducerResult,
+  StoredData,
+  CompressedData,
+  HistoryStorage,
+  EntryInfo,
+  EntryOptions,
+  HistoryEntry,
+  HistoryEvent,
+  HistoryEventListener,
+  CoalesceOptions,
+  SetStateAction,
+  SetOptions,
+  TransactionOptions,
+  RevertOptions,
+  RevertResult,
+  ResetOptions,
+  Checkpoint,
+  CheckpointOptions,
+  Command,
+  CommandOptions,
+  CommandBatchOptions,
+  CommandHistoryState,
+  UndoRedoCommandsResult,
+  GlobalUndoRedoResult,
+  ShortcutKeymap,
+  UndoRedoShortcutsOptions,
+} from './types';
+export type { HistoryNode, HistoryTree, HistoryTreeNode } from './historyTree';
+export {
+  HISTORY_FORMAT_VERSION,
+  HistoryImportError,
+  validateHistoryDocument,
+} from './historyDocument';
+export type {
+  ExportHistoryOptions,
+  HistoryDocument,
+  ImportHistoryOptions,
+} from './historyDocument';
+export {
+  PersistError,
+  createIndexedDBStorage,
+  createLocalStorage,
+} from './persist';
+export type {
+  HydrationStatus,
+  PersistOptions,
+  PersistStorage,
+  PersistedHistory,
+  PersistedState,
+} from './persist';
+export {
+  CodecError,
+  createLZCodec,
+  jsonCodec,
+  lzCodec,
+  structuredCodec,
+} from './codec';
+export type { HistoryCodec } from './codec';
+export { estimateByteSize } from './utils';
+export { produce } from './produce';
+export type { Draft } from './produce';
+export { getDevtoolsHook, registerDevtools } from './devtoolsHook';
+export type { DevtoolsHook } from './devtoolsHook';
+export { createBroadcastChannel } from './sync';
+export type { SyncAction, SyncChannel, SyncMessage, SyncOptions } from './sync';
+export { rebaseInverse } from './patch';
+export type {
+  HistoryPatch,
+  PatchConflict,
+  PatchOperation,
+  PatchPath,
+  RebaseResult,
+} from './patch';
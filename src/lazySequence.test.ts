@@ -0,0 +1,130 @@
+import { UndoRedoStore } from './UndoRedoStore';
+import { HistoryCodec, jsonCodec } from './codec';
+import { createLazySequence } from './lazySequence';
+
+describe('createLazySequence', () => {
+  const create = () => {
+    const getItem = jest.fn((index: number) => ({ id: index }));
+
+    return { sequence: createLazySequence(4, getItem), getItem };
+  };
+
+  it('should compute items on first access only', () => {
+    const { sequence, getItem } = create();
+
+    expect(getItem).not.toHaveBeenCalled();
+    expect(sequence[2]).toEqual({ id: 2 });
+    expect(sequence[2]).toBe(sequence[2]);
+    expect(getItem).toHaveBeenCalledTimes(1);
+    expect(sequence[4]).toBeUndefined();
+    expect(sequence.length).toBe(4);
+  });
+
+  it('should only compute the items a search visits', () => {
+    const { sequence, getItem } = create();
+
+    expect(sequence.find((item) => item.id === 1)).toEqual({ id: 1 });
+    expect(getItem).toHaveBeenCalledTimes(2);
+    expect(sequence.at(-1)).toEqual({ id: 3 });
+    expect(getItem).toHaveBeenCalledTimes(3);
+  });
+
+  it('should behave like an array', () => {
+    const { sequence } = create();
+    const ids = [0, 1, 2, 3];
+
+    expect(Array.isArray(sequence)).toBe(true);
+    expect([...sequence].map((item) => item.id)).toEqual(ids);
+    expect(Array.from(sequence, (item) => item.id)).toEqual(ids);
+    expect(sequence.map((item) => item.id)).toEqual(ids);
+    expect(sequence.filter((item) => item.id % 2 === 0)).toHaveLength(2);
+    expect(sequence.slice(1, 3)).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(sequence.reduce((sum, item) => sum + item.id, 0)).toBe(6);
+    expect(sequence.indexOf(sequence[3])).toBe(3);
+    expect(sequence.includes(sequence[0])).toBe(true);
+    expect(sequence.findIndex((item) => item.id === 2)).toBe(2);
+    expect(sequence.some((item) => item.id === 3)).toBe(true);
+    expect(sequence.every((item) => item.id < 4)).toBe(true);
+    expect(sequence.concat([{ id: 4 }])).toHaveLength(5);
+    expect(sequence.map((item) => item.id).join()).toBe('0,1,2,3');
+    expect(Object.keys(sequence)).toEqual(['0', '1', '2', '3']);
+    expect(JSON.stringify(sequence)).toBe(
+      '[{"id":0},{"id":1},{"id":2},{"id":3}]'
+    );
+
+    const visited: number[] = [];
+
+    for (const item of sequence) {
+      visited.push(item.id);
+    }
+
+    sequence.forEach((item, index) => {
+      expect(item.id).toBe(index);
+    });
+
+    expect(visited).toEqual(ids);
+    expect(Array.from(sequence.entries())[1]).toEqual([1, { id: 1 }]);
+  });
+
+  it('should reject writes', () => {
+    const { sequence } = create();
+    const writable = sequence as unknown as { id: number }[];
+
+    expect(() => {
+      writable[0] = { id: 9 };
+    }).toThrow(TypeError);
+    expect(() => writable.push({ id: 4 })).toThrow(TypeError);
+    expect(() => writable.reverse()).toThrow(TypeError);
+    expect(() => writable.splice(0, 1)).toThrow(TypeError);
+    expect(sequence.map((item) => item.id)).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe.each([
+  ['uncompressed', false],
+  ['compressed', true],
+])('history sequences (%s)', (_, compressHistory) => {
+  const createStore = (codec?: HistoryCodec) => {
+    const store = new UndoRedoStore<{ n: number }>(
+      { n: 0 },
+      { compressHistory, codec }
+    );
+
+    for (let n = 1; n <= 5; n++) {
+      store.set({ n });
+    }
+
+    store.undo(2);
+
+    return store;
+  };
+
+  it('should decode past and future entries', () => {
+    const { past, future } = createStore().getHistory();
+
+    expect([...past]).toEqual([{ n: 0 }, { n: 1 }, { n: 2 }]);
+    expect(Array.from(future)).toEqual([{ n: 4 }, { n: 5 }]);
+    expect(past.find((item) => item.n === 1)).toEqual({ n: 1 });
+    expect(future.at(-1)).toEqual({ n: 5 });
+    expect(past.reduce((sum, item) => sum + item.n, 0)).toBe(3);
+    expect(past.indexOf(past[2])).toBe(2);
+    expect(JSON.parse(JSON.stringify(createStore().getHistory()))).toEqual(
+      expect.objectContaining({
+        past: [{ n: 0 }, { n: 1 }, { n: 2 }],
+        future: [{ n: 4 }, { n: 5 }],
+      })
+    );
+  });
+
+  it('should decode each entry once per snapshot', () => {
+    const decode = jest.fn(jsonCodec.decode);
+    const history = createStore({ ...jsonCodec, decode }).getHistory();
+
+    decode.mockClear();
+    history.past.find((item) => item.n === 2);
+    history.past.find((item) => item.n === 2);
+    history.past.at(0);
+
+    expect(decode).toHaveBeenCalledTimes(compressHistory ? 3 : 0);
+  });
+});
@@ -0,0 +1,63 @@
+const INDEX = /^(0|[1-9]\d*)$/;
+
+/**
+ * Read-only array view over `length` items that are computed by `getItem`
+ * on first access and memoized. It passes `Array.isArray`, and every
+ * non-mutating array method, iteration and `JSON.stringify` read items
+ * through the same accessor, so `find` or `at` only compute the items they
+ * visit. Writes throw a `TypeError`.
+ */
+export const createLazySequence = <T>(
+  length: number,
+  getItem: (index: number) => T
+): readonly T[] => {
+  // Decoded items are kept in the proxy target, where consoles that bypass
+  // the proxy can see them
+  const cache: T[] = [];
+  const loaded: boolean[] = [];
+
+  for (let i = 0; i < length; i++) {
+    cache.push(undefined as T);
+  }
+
+  const itemAt = (index: number): T => {
+    if (!loaded[index]) {
+      cache[index] = getItem(index);
+      loaded[index] = true;
+    }
+
+    return cache[index];
+  };
+
+  const toIndex = (prop: string | symbol): number => {
+    if (typeof prop !== 'string' || !INDEX.test(prop)) return -1;
+
+    const index = Number(prop);
+
+    return index < length ? index : -1;
+  };
+
+  const reject = (): boolean => {
+    throw new TypeError('History sequences are read-only');
+  };
+
+  return new Proxy(cache, {
+    get(object, prop, receiver) {
+      const index = toIndex(prop);
+
+      return index === -1 ? Reflect.get(object, prop, receiver) : itemAt(index);
+    },
+    getOwnPropertyDescriptor(object, prop) {
+      const descriptor = Reflect.getOwnPropertyDescriptor(object, prop);
+      const index = toIndex(prop);
+
+      return descriptor && index !== -1
+        ? { ...descriptor, value: itemAt(index) }
+        : descriptor;
+    },
+    set: reject,
+    deleteProperty: reject,
+    defineProperty: reject,
+    setPrototypeOf: reject,
+  }) as readonly T[];
+};
@@ -0,0 +1,87 @@
+import { applyPatch, createPatch, rebaseInverse } from './patch';
+
+describe('patch', () => {
+  it('should produce no operations for equal references', () => {
+    const value = { a: 1 };
+
+    expect(createPatch(value, value)).toEqual({ forward: [], inverse: [] });
+  });
+
+  it('should diff nested objects by path', () => {
+    const patch = createPatch(
+      { user: { name: 'John', age: 25 }, tags: ['a'] },
+      { user: { name: 'Jane', age: 25 }, tags: ['a'], active: true }
+    );
+
+    expect(patch.forward).toEqual([
+      { op: 'replace', path: ['user', 'name'], value: 'Jane' },
+      { op: 'add', path: ['active'], value: true },
+    ]);
+    expect(patch.inverse).toEqual([
+      { op: 'remove', path: ['active'] },
+      { op: 'replace', path: ['user', 'name'], value: 'John' },
+    ]);
+  });
+
+  it('should round-trip arrays that grow and shrink', () => {
+    const a = { items: [1, 2, 3, 4] };
+    const b = { items: [1, 5] };
+    const patch = createPatch(a, b);
+
+    expect(applyPatch(a, patch.forward)).toEqual(b);
+    expect(applyPatch(b, patch.inverse)).toEqual(a);
+    expect(applyPatch(b, createPatch(b, a).forward)).toEqual(a);
+  });
+
+  it('should replace values of different kinds as a whole', () => {
+    const patch = createPatch<unknown>({ a: [1] }, 'text');
+
+    expect(patch.forward).toEqual([{ op: 'replace', path: [], value: 'text' }]);
+    expect(applyPatch<unknown>('text', patch.inverse)).toEqual({ a: [1] });
+  });
+
+  it('should not mutate the source and keep untouched subtrees', () => {
+    const source = { changed: { value: 1 }, untouched: { value: 2 } };
+    const patch = createPatch(source, {
+      changed: { value: 3 },
+      untouched: { value: 2 },
+    });
+    const result = applyPatch(source, patch.forward);
+
+    expect(source.changed.value).toBe(1);
+    expect(result.changed.value).toBe(3);
+    expect(result.untouched).toBe(source.untouched);
+  });
+
+  it('should revert a change on top of later changes', () => {
+    const before = { color: 'red', size: 1, items: ['a'] };
+    const after = { color: 'blue', size: 1, items: ['a', 'b'] };
+    const present = { color: 'blue', size: 3, items: ['a', 'b', 'c'] };
+
+    expect(rebaseInverse(present, before, after)).toEqual({
+      state: { color: 'red', size: 3, items: ['a', 'c'] },
+      conflicts: [],
+    });
+  });
+
+  it('should report paths changed again after the entry', () => {
+    const before = { color: 'red', size: 1 };
+    const after = { color: 'blue', size: 2 };
+    const present = { color: 'green', size: 2 };
+
+    expect(rebaseInverse(present, before, after)).toEqual({
+      state: { color: 'green', size: 1 },
+      conflicts: [{ path: ['color'], expected: 'blue', actual: 'green' }],
+    });
+  });
+
+  it('should report removed paths that were added back', () => {
+    const before: Record<string, number> = { a: 1, b: 2 };
+    const after: Record<string, number> = { a: 1 };
+    const present: Record<string, number> = { a: 1, b: 5 };
+
+    expect(rebaseInverse(present, before, after).conflicts).toEqual([
+      { path: ['b'], expected: undefined, actual: 5 },
+    ]);
+  });
+});
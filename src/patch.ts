@@ -0,0 +1,256 @@
+import { safeStructuredClone } from './utils';
+
+export type PatchPath = (string | number)[];
+
+export type PatchOperation =
+  | { op: 'add'; path: PatchPath; value: unknown }
+  | { op: 'remove'; path: PatchPath }
+  | { op: 'replace'; path: PatchPath; value: unknown };
+
+/**
+ * Structural difference between two consecutive states. `forward` turns the
+ * older state into the newer one, `inverse` turns the newer one back.
+ */
+export interface HistoryPatch {
+  forward: PatchOperation[];
+  inverse: PatchOperation[];
+}
+
+type Container = Record<string | number, unknown>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (value === null || typeof value !== 'object') return false;
+
+  const proto = Object.getPrototypeOf(value);
+
+  return proto === Object.prototype || proto === null;
+};
+
+const diffInto = (
+  a: unknown,
+  b: unknown,
+  path: PatchPath,
+  forward: PatchOperation[],
+  inverse: PatchOperation[]
+): void => {
+  if (a === b) return;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const common = Math.min(a.length, b.length);
+
+    for (let i = 0; i < common; i++) {
+      diffInto(a[i], b[i], [...path, i], forward, inverse);
+    }
+
+    for (let i = common; i < b.length; i++) {
+      forward.push({ op: 'add', path: [...path, i], value: b[i] });
+      inverse.push({ op: 'remove', path: [...path, i] });
+    }
+
+    for (let i = a.length - 1; i >= common; i--) {
+      forward.push({ op: 'remove', path: [...path, i] });
+      inverse.push({ op: 'add', path: [...path, i], value: a[i] });
+    }
+
+    return;
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    Object.keys(a).forEach((key) => {
+      if (!Object.prototype.hasOwnProperty.call(b, key)) {
+        forward.push({ op: 'remove', path: [...path, key] });
+        inverse.push({ op: 'add', path: [...path, key], value: a[key] });
+      } else {
+        diffInto(a[key], b[key], [...path, key], forward, inverse);
+      }
+    });
+
+    Object.keys(b).forEach((key) => {
+      if (!Object.prototype.hasOwnProperty.call(a, key)) {
+        forward.push({ op: 'add', path: [...path, key], value: b[key] });
+        inverse.push({ op: 'remove', path: [...path, key] });
+      }
+    });
+
+    return;
+  }
+
+  forward.push({ op: 'replace', path, value: b });
+  inverse.push({ op: 'replace', path, value: a });
+};
+
+type Clone = <V>(value: V) => V;
+
+/**
+ * Computes forward and inverse operations between `prev` and `next`.
+ * Plain objects and arrays are compared structurally, any other value is
+ * replaced as a whole. Values are cloned unless another `clone` is passed.
+ */
+export const createPatch = <T>(
+  prev: T,
+  next: T,
+  clone: Clone = safeStructuredClone
+): HistoryPatch => {
+  const forward: PatchOperation[] = [];
+  const inverse: PatchOperation[] = [];
+
+  diffInto(prev, next, [], forward, inverse);
+
+  return clone({ forward, inverse: inverse.reverse() });
+};
+
+const shallowCopy = (value: unknown): Container => {
+  if (Array.isArray(value)) return value.slice() as unknown as Container;
+
+  return { ...(value as Container) };
+};
+
+const applyOperation = (
+  root: unknown,
+  operation: PatchOperation,
+  clone: Clone
+): unknown => {
+  const { path } = operation;
+
+  if (path.length === 0) {
+    return operation.op === 'remove' ? undefined : clone(operation.value);
+  }
+
+  const copy = shallowCopy(root);
+  let parent = copy;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const child = shallowCopy(parent[path[i]]);
+
+    parent[path[i]] = child;
+    parent = child;
+  }
+
+  const key = path[path.length - 1];
+
+  if (Array.isArray(parent)) {
+    const index = Number(key);
+
+    if (operation.op === 'add') {
+      parent.splice(index, 0, clone(operation.value));
+    } else if (operation.op === 'remove') {
+      parent.splice(index, 1);
+    } else {
+      parent[index] = clone(operation.value);
+    }
+  } else if (operation.op === 'remove') {
+    delete parent[key];
+  } else {
+    parent[key] = clone(operation.value);
+  }
+
+  return copy;
+};
+
+/**
+ * Applies operations without mutating `state`. Only containers on the changed
+ * paths are copied, untouched subtrees keep their references.
+ */
+export const applyPatch = <T>(
+  state: T,
+  operations: PatchOperation[],
+  clone: Clone = safeStructuredClone
+): T => {
+  return operations.reduce<unknown>(
+    (root, operation) => applyOperation(root, operation, clone),
+    state
+  ) as T;
+};
+
+/** A path changed by a reverted entry that was changed again afterwards. */
+export interface PatchConflict {
+  path: PatchPath;
+  /** Value the entry left at `path`, `undefined` when it removed it. */
+  expected: unknown;
+  /** Value at `path` in the present. */
+  actual: unknown;
+}
+
+export interface RebaseResult<T> {
+  state: T;
+  conflicts: PatchConflict[];
+}
+
+const MISSING = {};
+
+const getAtPath = (root: unknown, path: PatchPath): unknown => {
+  let current = root;
+
+  for (let i = 0; i < path.length; i++) {
+    if (
+      current === null ||
+      typeof current !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(current, path[i])
+    ) {
+      return MISSING;
+    }
+
+    current = (current as Container)[path[i]];
+  }
+
+  return current;
+};
+
+const isDeepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]))
+    );
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every(
+        (key) =>
+          Object.prototype.hasOwnProperty.call(b, key) &&
+          isDeepEqual(a[key], b[key])
+      )
+    );
+  }
+
+  return false;
+};
+
+/**
+ * Reverts the change from `before` to `after` on top of `present`. Each
+ * operation of the change is undone only where `present` still holds what
+ * the change left there; the other paths are reported as conflicts and keep
+ * their present value.
+ */
+export const rebaseInverse = <T>(
+  present: T,
+  before: T,
+  after: T
+): RebaseResult<T> => {
+  const { forward, inverse } = createPatch(before, after);
+  const conflicts: PatchConflict[] = [];
+  const clean: PatchOperation[] = [];
+
+  // `inverse` lists the counterparts of `forward` in reverse order
+  forward.forEach((operation, index) => {
+    const expected = getAtPath(after, operation.path);
+    const actual = getAtPath(present, operation.path);
+
+    if (isDeepEqual(expected, actual)) {
+      clean.unshift(inverse[inverse.length - 1 - index]);
+    } else {
+      conflicts.push({
+        path: operation.path,
+        expected: expected === MISSING ? undefined : expected,
+        actual: actual === MISSING ? undefined : actual,
+      });
+    }
+  });
+
+  return { state: applyPatch(present, clean), conflicts };
+};
@@ -0,0 +1,319 @@
+import 'fake-indexeddb/auto';
+import { deserialize, serialize } from 'v8';
+import { renderHook, act } from '@testing-library/react-hooks';
+import {
+  PersistStorage,
+  PersistedHistory,
+  createIndexedDBStorage,
+  createLocalStorage,
+} from './persist';
+import { UndoRedoStore } from './UndoRedoStore';
+import { useUndoRedo } from './useUndoRedo';
+
+const createAsyncStorage = () => {
+  const data: Record<string, PersistedHistory<unknown>> = {};
+  let resolveRead: () => void = () => undefined;
+  const storage: PersistStorage = {
+    getItem: (key) =>
+      new Promise((resolve) => {
+        resolveRead = () => resolve(data[key] || null);
+      }),
+    setItem: jest.fn((key, value) => {
+      data[key] = value;
+
+      return Promise.resolve();
+    }),
+    removeItem: (key) => {
+      delete data[key];
+    },
+  };
+
+  return { data, storage, finishRead: () => resolveRead() };
+};
+
+describe('persist', () => {
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should save history to localStorage and restore it on mount', () => {
+    const persist = { key: 'doc', storage: createLocalStorage() };
+    const first = new UndoRedoStore('initial', { persist });
+
+    first.set('state 1');
+    first.set('state 2');
+    first.undo();
+
+    const second = new UndoRedoStore('other', { persist });
+
+    expect(second.getHydrationStatus()).toBe('hydrated');
+    expect(second.getSnapshot().present).toBe('state 1');
+    expect(second.getHistory().past).toEqual(['initial']);
+    expect(second.getHistory().future).toEqual(['state 2']);
+  });
+
+  it('should restore compressed patch history', () => {
+    const options = {
+      compressHistory: true,
+      historyStorage: 'patch' as const,
+      persist: { key: 'doc', storage: createLocalStorage() },
+    };
+    const first = new UndoRedoStore({ count: 0 }, options);
+
+    first.set({ count: 1 });
+    first.set({ count: 2 });
+
+    const second = new UndoRedoStore({ count: 0 }, options);
+
+    expect(second.getSnapshot().present).toEqual({ count: 2 });
+
+    second.undo(2);
+
+    expect(second.getSnapshot().present).toEqual({ count: 0 });
+  });
+
+  it('should not save while batching', () => {
+    const setItem = jest.fn();
+    const store = new UndoRedoStore(0, {
+      persist: {
+        key: 'doc',
+        storage: { getItem: () => null, setItem, removeItem: jest.fn() },
+      },
+    });
+
+    store.startBatch();
+    store.set(1);
+    store.set(2);
+
+    expect(setItem).not.toHaveBeenCalled();
+
+    store.endBatch();
+
+    expect(setItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('should migrate every state saved with another version', () => {
+    const storage = createLocalStorage();
+    const first = new UndoRedoStore<unknown>(
+      { name: 'John' },
+      { persist: { key: 'doc', storage, version: 1 } }
+    );
+
+    first.set({ name: 'Jane' });
+    first.set({ name: 'Jack' });
+    first.undo();
+
+    const migrate = jest.fn((state: unknown) => ({
+      firstName: (state as { name: string }).name,
+    }));
+    const second = new UndoRedoStore(
+      { firstName: '' },
+      { persist: { key: 'doc', storage, version: 2, migrate } }
+    );
+
+    expect(migrate).toHaveBeenCalledWith({ name: 'John' }, 1);
+    expect(second.getSnapshot().present).toEqual({ firstName: 'Jane' });
+    expect(second.getHistory().past).toEqual([{ firstName: 'John' }]);
+    expect(second.getHistory().future).toEqual([{ firstName: 'Jack' }]);
+  });
+
+  it('should migrate history without future entries', () => {
+    const storage = createLocalStorage();
+    const first = new UndoRedoStore<unknown>(
+      { name: 'John' },
+      { persist: { key: 'doc', storage, version: 1 } }
+    );
+
+    first.set({ name: 'Jane' });
+
+    const second = new UndoRedoStore(
+      { firstName: '' },
+      {
+        persist: {
+          key: 'doc',
+          storage,
+          version: 2,
+          migrate: (state: unknown) => ({
+            firstName: (state as { name: string }).name,
+          }),
+        },
+      }
+    );
+
+    expect(second.getSnapshot().present).toEqual({ firstName: 'Jane' });
+    expect(second.getHistory().past).toEqual([{ firstName: 'John' }]);
+    expect(second.getHistory().future).toEqual([]);
+  });
+
+  it('should discard history of another version without migrate', () => {
+    const storage = createLocalStorage();
+    const first = new UndoRedoStore('a', {
+      persist: { key: 'doc', storage, version: 1 },
+    });
+
+    first.set('b');
+
+    const second = new UndoRedoStore('fresh', {
+      persist: { key: 'doc', storage, version: 2 },
+    });
+
+    expect(second.getSnapshot().present).toBe('fresh');
+    expect(second.canUndo).toBe(false);
+  });
+
+  it('should report invalid stored data and keep the initial value', () => {
+    window.localStorage.setItem('doc', JSON.stringify({ broken: true }));
+
+    const onError = jest.fn();
+    const store = new UndoRedoStore('initial', {
+      persist: { key: 'doc', storage: createLocalStorage(), onError },
+    });
+
+    expect(store.getHydrationStatus()).toBe('failed');
+    expect(store.getSnapshot().present).toBe('initial');
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'PersistError' })
+    );
+  });
+
+  it('should expose hydration status for asynchronous storages', async () => {
+    const { storage, data, finishRead } = createAsyncStorage();
+
+    data.doc = {
+      version: 0,
+      state: {
+        past: ['initial'],
+        present: 'saved',
+        future: [],
+        pastInfo: [{ timestamp: 1 }],
+        presentInfo: { timestamp: 2 },
+        futureInfo: [],
+        isCompressed: false,
+        historyStorage: 'snapshot',
+        tree: null,
+      },
+    };
+
+    const { result } = renderHook(() =>
+      useUndoRedo('initial', { persist: { key: 'doc', storage } })
+    );
+
+    expect(result.current.hydrationStatus).toBe('pending');
+    expect(result.current.state).toBe('initial');
+
+    await act(async () => {
+      finishRead();
+    });
+
+    expect(result.current.hydrationStatus).toBe('hydrated');
+    expect(result.current.state).toBe('saved');
+    expect(result.current.canUndo).toBe(true);
+  });
+
+  it('should keep changes made before an asynchronous storage loads', async () => {
+    const { storage, data, finishRead } = createAsyncStorage();
+
+    data.doc = {
+      version: 0,
+      state: {
+        past: [],
+        present: 'saved',
+        future: [],
+        pastInfo: [],
+        presentInfo: { timestamp: 1 },
+        futureInfo: [],
+        isCompressed: false,
+        historyStorage: 'snapshot',
+        tree: null,
+      },
+    };
+
+    const store = new UndoRedoStore('initial', {
+      persist: { key: 'doc', storage },
+    });
+
+    store.set('typed');
+
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    finishRead();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(store.getSnapshot().present).toBe('typed');
+    expect(data.doc.state.present).toBe('typed');
+  });
+});
+
+describe('createIndexedDBStorage', () => {
+  // fake-indexeddb clones values with structuredClone, which jsdom lacks
+  beforeAll(() => {
+    const scope = globalThis as {
+      structuredClone?: (value: unknown) => unknown;
+    };
+
+    if (!scope.structuredClone) {
+      scope.structuredClone = (value) => deserialize(serialize(value));
+    }
+  });
+
+  const waitFor = async (check: () => boolean) => {
+    for (let i = 0; i < 100 && !check(); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  };
+
+  it('should save and restore history', async () => {
+    const storage = createIndexedDBStorage({ dbName: 'restore' });
+    const persist = { key: 'doc', storage };
+    const first = new UndoRedoStore({ date: new Date(0) }, { persist });
+
+    await waitFor(() => first.getHydrationStatus() !== 'pending');
+    first.set({ date: new Date(1000) });
+
+    const second = new UndoRedoStore({ date: new Date(5) }, { persist });
+
+    await waitFor(() => second.getHydrationStatus() !== 'pending');
+
+    expect(second.getHydrationStatus()).toBe('hydrated');
+    expect(second.getSnapshot().present.date).toEqual(new Date(1000));
+    expect(second.getHistory().past).toEqual([{ date: new Date(0) }]);
+  });
+
+  it('should create stores of adapters sharing a database', async () => {
+    const first = createIndexedDBStorage({ dbName: 'shared' });
+    const second = createIndexedDBStorage({
+      dbName: 'shared',
+      storeName: 'other',
+    });
+
+    const saved = (version: number) =>
+      ({ version }) as unknown as PersistedHistory<unknown>;
+
+    await first.setItem('doc', saved(1));
+    await second.setItem('doc', saved(2));
+
+    expect(await first.getItem('doc')).toEqual(saved(1));
+    expect(await second.getItem('doc')).toEqual(saved(2));
+
+    await second.removeItem('doc');
+
+    expect(await second.getItem('doc')).toBeNull();
+  });
+
+  it('should open the database again after a failure', async () => {
+    const storage = createIndexedDBStorage({ dbName: 'retry' });
+    const open = jest.spyOn(indexedDB, 'open').mockImplementationOnce(() => {
+      const request = {} as IDBOpenDBRequest;
+
+      setTimeout(() => request.onerror!(new Event('error')));
+
+      return request;
+    });
+
+    await expect(storage.getItem('doc')).rejects.toBeUndefined();
+    expect(await storage.getItem('doc')).toBeNull();
+
+    open.mockRestore();
+  });
+});
@@ -0,0 +1,205 @@
+import { UndoRedoState } from './types';
+
+export type HydrationStatus = 'pending' | 'hydrated' | 'failed';
+
+export type PersistedState<T> = Omit<UndoRedoState<T>, 'isBatching'>;
+
+export interface PersistedHistory<T> {
+  version: number;
+  state: PersistedState<T>;
+}
+
+type MaybePromise<V> = V | Promise<V>;
+
+/**
+ * Storage backend for `persist`. Methods may be synchronous (the history is
+ * restored before the first render) or return promises.
+ */
+export interface PersistStorage {
+  getItem: (key: string) => MaybePromise<PersistedHistory<unknown> | null>;
+  setItem: (
+    key: string,
+    value: PersistedHistory<unknown>
+  ) => MaybePromise<void>;
+  removeItem: (key: string) => MaybePromise<void>;
+}
+
+export interface PersistOptions<T> {
+  key: string;
+  storage: PersistStorage;
+  /** Version written with the history, defaults to `0`. */
+  version?: number;
+  /**
+   * Converts a state saved with another `version` to the current shape. It is
+   * called for every state of the timeline; without it, history saved with a
+   * different version is discarded.
+   */
+  migrate?: (state: unknown, version: number) => T;
+  onError?: (error: unknown) => void;
+}
+
+export class PersistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PersistError';
+    Object.setPrototypeOf(this, PersistError.prototype);
+  }
+}
+
+export const isPromiseLike = <V>(value: unknown): value is PromiseLike<V> => {
+  return !!value && typeof (value as PromiseLike<V>).then === 'function';
+};
+
+export const toPersistedHistory = <T>(
+  state: UndoRedoState<T>,
+  version: number
+): PersistedHistory<T> => ({
+  version,
+  state: {
+    past: state.past,
+    present: state.present,
+    future: state.future,
+    pastInfo: state.pastInfo,
+    presentInfo: state.presentInfo,
+    futureInfo: state.futureInfo,
+    isCompressed: state.isCompressed,
+    historyStorage: state.historyStorage,
+    tree: state.tree,
+  },
+});
+
+/** Checks the shape of a stored value before it is restored. */
+export const validatePersistedHistory = (
+  value: unknown
+): PersistedHistory<unknown> => {
+  const candidate = value as PersistedHistory<unknown>;
+
+  if (
+    !candidate ||
+    typeof candidate.version !== 'number' ||
+    !candidate.state ||
+    !Array.isArray(candidate.state.past) ||
+    !Array.isArray(candidate.state.future) ||
+    !Array.isArray(candidate.state.pastInfo) ||
+    !Array.isArray(candidate.state.futureInfo) ||
+    candidate.state.pastInfo.length !== candidate.state.past.length ||
+    candidate.state.futureInfo.length !== candidate.state.future.length ||
+    !candidate.state.presentInfo ||
+    !('present' in candidate.state) ||
+    typeof candidate.state.isCompressed !== 'boolean' ||
+    (candidate.state.historyStorage !== 'snapshot' &&
+      candidate.state.historyStorage !== 'patch')
+  ) {
+    throw new PersistError('Persisted history has an invalid shape');
+  }
+
+  return candidate;
+};
+
+/**
+ * Synchronous adapter for `localStorage` (or any `Storage`). The storage is
+ * looked up on each call, so the adapter can be created during SSR.
+ */
+export const createLocalStorage = (
+  getStorage: () => Storage = () => window.localStorage
+): PersistStorage => ({
+  getItem: (key) => {
+    const value = getStorage().getItem(key);
+
+    return value === null ? null : JSON.parse(value);
+  },
+  setItem: (key, value) => {
+    getStorage().setItem(key, JSON.stringify(value));
+  },
+  removeItem: (key) => {
+    getStorage().removeItem(key);
+  },
+});
+
+interface IndexedDBStorageOptions {
+  dbName?: string;
+  storeName?: string;
+}
+
+const requestToPromise = <V>(request: IDBRequest<V>): Promise<V> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Asynchronous adapter for IndexedDB. Values are stored with structured clone,
+ * so states are not limited to JSON. Adapters may share a database with
+ * different store names: a missing store is created by upgrading the
+ * database to the next version.
+ */
+export const createIndexedDBStorage = ({
+  dbName = 'use-undo-redo',
+  storeName = 'history',
+}: IndexedDBStorageOptions = {}): PersistStorage => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = (version?: number): Promise<IDBDatabase> => {
+    const request =
+      version === undefined
+        ? indexedDB.open(dbName)
+        : indexedDB.open(dbName, version);
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+
+    return requestToPromise(request).then((db) => {
+      if (!db.objectStoreNames.contains(storeName)) {
+        db.close();
+
+        return open(db.version + 1);
+      }
+
+      // Let other adapters upgrade the database, reopen on the next call
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+
+      return db;
+    });
+  };
+
+  const getDb = () => {
+    if (!dbPromise) {
+      const promise = open();
+
+      // A failed open is retried on the next call
+      promise.then(undefined, () => {
+        if (dbPromise === promise) dbPromise = null;
+      });
+      dbPromise = promise;
+    }
+
+    return dbPromise;
+  };
+
+  const run = <V>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<V>
+  ): Promise<V> =>
+    getDb().then((db) =>
+      requestToPromise(
+        fn(db.transaction(storeName, mode).objectStore(storeName))
+      )
+    );
+
+  return {
+    getItem: (key) =>
+      run('readonly', (store) => store.get(key)).then((value) =>
+        value === undefined ? null : value
+      ),
+    setItem: (key, value) =>
+      run('readwrite', (store) => store.put(value, key)).then(() => undefined),
+    removeItem: (key) =>
+      run('readwrite', (store) => store.delete(key)).then(() => undefined),
+  };
+};
@@ -0,0 +1,243 @@
+import { produce } from './produce';
+import { UndoRedoStore } from './UndoRedoStore';
+import { deepFreeze } from './utils';
+
+interface Doc {
+  title: string;
+  meta: { tags: string[]; author: { name: string } };
+  items: { id: number; done: boolean }[];
+}
+
+const createDoc = (): Doc => ({
+  title: 'Draft',
+  meta: { tags: ['a'], author: { name: 'Ann' } },
+  items: [
+    { id: 1, done: false },
+    { id: 2, done: false },
+  ],
+});
+
+describe('produce', () => {
+  it('should copy only the changed path', () => {
+    const base = createDoc();
+    const next = produce<Doc>((draft) => {
+      draft.items[1].done = true;
+    })(base);
+
+    expect(next).toEqual({
+      ...base,
+      items: [base.items[0], { id: 2, done: true }],
+    });
+    expect(next).not.toBe(base);
+    expect(next.items).not.toBe(base.items);
+    expect(next.items[0]).toBe(base.items[0]);
+    expect(next.meta).toBe(base.meta);
+    expect(base.items[1].done).toBe(false);
+  });
+
+  it('should return the base when nothing changes', () => {
+    const base = createDoc();
+
+    expect(
+      produce<Doc>((draft) => {
+        draft.title = 'Draft';
+        void draft.meta.author.name;
+      })(base)
+    ).toBe(base);
+  });
+
+  it('should support array methods, deletes and frozen bases', () => {
+    const base = deepFreeze(createDoc());
+    const next = produce<Doc>((draft) => {
+      draft.meta.tags.push('b');
+      draft.items.splice(0, 1);
+      delete (draft as Partial<Doc>).title;
+    })(base);
+
+    expect(next.meta.tags).toEqual(['a', 'b']);
+    expect(next.meta.author).toBe(base.meta.author);
+    expect(next.items).toEqual([{ id: 2, done: false }]);
+    expect(next.items[0]).toBe(base.items[1]);
+    expect('title' in next).toBe(false);
+    expect(base.meta.tags).toEqual(['a']);
+  });
+
+  it('should resolve drafts moved into new objects', () => {
+    const base = createDoc();
+    const next = produce<Doc>((draft) => {
+      draft.items = [{ ...draft.items[1], done: true }, draft.items[0]];
+      draft.meta = { ...draft.meta, tags: [] };
+    })(base);
+
+    expect(next.items).toEqual([
+      { id: 2, done: true },
+      { id: 1, done: false },
+    ]);
+    expect(next.items[1]).toBe(base.items[0]);
+    expect(next.meta.author).toBe(base.meta.author);
+  });
+
+  it('should use a returned value and work with primitives', () => {
+    expect(produce<Doc>(() => createDoc())({} as Doc)).toEqual(createDoc());
+    expect(produce<number>((value) => value + 1)(1)).toBe(2);
+  });
+
+  it('should copy Maps, Sets and Dates on write', () => {
+    const base = {
+      tags: new Map([['a', { count: 1 }]]),
+      ids: new Set([1]),
+      updatedAt: new Date(0),
+      untouched: new Map([['b', 2]]),
+    };
+    const next = produce<typeof base>((draft) => {
+      draft.tags.get('a')!.count = 2;
+      draft.tags.set('c', { count: 3 }).delete('missing');
+      draft.ids.add(2);
+      draft.updatedAt.setTime(1000);
+      draft.untouched.delete('missing');
+    })(base);
+
+    expect(next.tags).toBeInstanceOf(Map);
+    expect(Array.from(next.tags.entries())).toEqual([
+      ['a', { count: 2 }],
+      ['c', { count: 3 }],
+    ]);
+    expect(Array.from(next.ids)).toEqual([1, 2]);
+    expect(next.updatedAt.getTime()).toBe(1000);
+    expect(next.untouched).toBe(base.untouched);
+    expect(base.tags.get('a')).toEqual({ count: 1 });
+    expect(base.tags.has('c')).toBe(false);
+    expect(base.ids.has(2)).toBe(false);
+    expect(base.updatedAt.getTime()).toBe(0);
+  });
+
+  it('should return the base when Maps and Sets are only read', () => {
+    const base = { tags: new Map([['a', { count: 1 }]]), ids: new Set([1]) };
+    const next = produce<typeof base>((draft) => {
+      draft.tags.forEach((value) => value.count);
+      draft.ids.has(1);
+    })(base);
+
+    expect(next).toBe(base);
+  });
+
+  it('should revoke drafts after the recipe', () => {
+    let leaked: Doc['meta'] | undefined;
+
+    produce<Doc>((draft) => {
+      leaked = draft.meta;
+    })(createDoc());
+
+    expect(() => leaked!.tags).toThrow(TypeError);
+  });
+});
+
+describe('UndoRedoStore immutable', () => {
+  it('should share unchanged subtrees across history', () => {
+    const base = createDoc();
+    const store = new UndoRedoStore(base, { immutable: true });
+
+    store.set(
+      produce((draft) => {
+        draft.title = 'Final';
+      })
+    );
+
+    const { present } = store.getSnapshot();
+
+    expect(store.getHistory().past[0]).toBe(base);
+    expect(present.items).toBe(base.items);
+
+    store.undo();
+
+    expect(store.getSnapshot().present).toBe(base);
+
+    store.redo();
+
+    expect(store.getSnapshot().present).toBe(present);
+  });
+
+  it('should share unchanged subtrees with patch storage', () => {
+    const base = createDoc();
+    const store = new UndoRedoStore(base, {
+      immutable: true,
+      historyStorage: 'patch',
+    });
+
+    store.set(
+      produce((draft) => {
+        draft.items[0].done = true;
+      })
+    );
+    store.undo();
+
+    const { present } = store.getSnapshot();
+
+    expect(present).toEqual(base);
+    expect(present.meta).toBe(base.meta);
+    expect(present.items[1]).toBe(base.items[1]);
+  });
+
+  it('should undo changes made to a Map in a recipe', () => {
+    const store = new UndoRedoStore(
+      { n: 0, tags: new Map([['a', 1]]) },
+      { immutable: true }
+    );
+
+    store.set(
+      produce((draft) => {
+        draft.tags.set('b', 2);
+        draft.n = 1;
+      })
+    );
+    store.undo();
+
+    const { present } = store.getSnapshot();
+
+    expect(present.n).toBe(0);
+    expect(Array.from(present.tags.keys())).toEqual(['a']);
+  });
+
+  it('should clone states without immutable', () => {
+    const base = createDoc();
+    const store = new UndoRedoStore(base);
+
+    expect(store.getSnapshot().present).not.toBe(base);
+    expect(store.getSnapshot().present).toEqual(base);
+  });
+
+  it('should freeze the initial present with freeze', () => {
+    const store = new UndoRedoStore(createDoc(), { freeze: true });
+    const { present } = store.getSnapshot();
+
+    expect(Object.isFrozen(present.meta.author)).toBe(true);
+    expect(() => {
+      present.meta.author.name = 'Bob';
+    }).toThrow(TypeError);
+  });
+
+  it('should freeze the present with freeze', () => {
+    const store = new UndoRedoStore(createDoc(), {
+      immutable: true,
+      freeze: true,
+    });
+
+    store.set(
+      produce((draft) => {
+        draft.items.push({ id: 3, done: false });
+      })
+    );
+
+    const { present } = store.getSnapshot();
+
+    expect(Object.isFrozen(present)).toBe(true);
+    expect(Object.isFrozen(present.items[2])).toBe(true);
+    expect(() => {
+      present.items[0].done = true;
+    }).toThrow(TypeError);
+
+    store.undo();
+
+    expect(Object.isFrozen(store.getSnapshot().present.items)).toBe(true);
+  });
+});
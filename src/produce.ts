@@ -0,0 +1,390 @@
+/** Mutable view of `T` passed to a `produce` recipe. */
+export type Draft<T> = T extends Date | Map<unknown, unknown> | Set<unknown>
+  ? T
+  : T extends object
+    ? { -readonly [K in keyof T]: Draft<T[K]> }
+    : T;
+
+type Container = Record<string | symbol, unknown>;
+type AnyMap = Map<unknown, unknown>;
+type AnySet = Set<unknown>;
+type Base = Container | AnyMap | AnySet | Date;
+
+interface DraftState {
+  base: Base;
+  copy: Base | null;
+  parent: DraftState | null;
+  drafts: Map<unknown, unknown>;
+}
+
+const isPlainContainer = (value: unknown): value is Container => {
+  if (Array.isArray(value)) return true;
+
+  if (value === null || typeof value !== 'object') return false;
+
+  const proto = Object.getPrototypeOf(value);
+
+  return proto === Object.prototype || proto === null;
+};
+
+const isDraftable = (value: unknown): value is Base =>
+  isPlainContainer(value) ||
+  value instanceof Map ||
+  value instanceof Set ||
+  value instanceof Date;
+
+const shallowCopy = (value: Base): Base => {
+  if (value instanceof Map) return new Map(value);
+
+  if (value instanceof Set) return new Set(value);
+
+  if (value instanceof Date) return new Date(value.getTime());
+
+  return (Array.isArray(value) ? value.slice() : { ...value }) as Container;
+};
+
+const hasOwn = (value: object, key: string | symbol): boolean =>
+  Object.prototype.hasOwnProperty.call(value, key);
+
+// Methods that change a `Map`, `Set` or `Date` in place
+const MAP_WRITES = ['set', 'delete', 'clear'];
+const SET_WRITES = ['add', 'delete', 'clear'];
+const MAP_READS = ['forEach', 'values', 'entries'];
+
+// Writes that leave a `Map` or `Set` as it is do not copy it
+const changesCollection = (
+  target: Base,
+  method: string,
+  args: unknown[]
+): boolean => {
+  if (!(target instanceof Map || target instanceof Set)) return true;
+
+  if (method === 'clear') return target.size > 0;
+
+  if (method === 'delete') return target.has(args[0]);
+
+  return target instanceof Map
+    ? !target.has(args[0]) || target.get(args[0]) !== args[1]
+    : !target.has(args[0]);
+};
+
+/**
+ * Runs `recipe` on a copy-on-write proxy of `base` and returns the result.
+ * Containers are copied only when they or one of their descendants are
+ * written, so untouched subtrees keep their references. `base` is never
+ * mutated and is returned as is when the recipe changes nothing.
+ */
+const produceFrom = <T>(base: T, recipe: (draft: Draft<T>) => T | void): T => {
+  if (!isDraftable(base)) {
+    const result = recipe(base as Draft<T>);
+
+    return result === undefined ? base : (result as T);
+  }
+
+  const states = new Map<unknown, DraftState>();
+  const revokes: (() => void)[] = [];
+
+  const source = (state: DraftState): Base => state.copy || state.base;
+
+  const markChanged = (state: DraftState): void => {
+    if (state.copy) return;
+
+    const copy = shallowCopy(state.base);
+
+    state.drafts.forEach((draft, key) => {
+      if (copy instanceof Map) {
+        copy.set(key, draft);
+      } else {
+        (copy as Container)[key as string] = draft;
+      }
+    });
+    state.copy = copy;
+
+    if (state.parent) markChanged(state.parent);
+  };
+
+  // Draftable children are wrapped in drafts on first read. `current` is the
+  // child in the copy (or the base), `put` stores its draft in the copy.
+  const readChild = (
+    state: DraftState,
+    key: unknown,
+    current: unknown,
+    baseValue: unknown,
+    put: (draft: unknown) => void
+  ): unknown => {
+    if (!state.copy && state.drafts.has(key)) {
+      return state.drafts.get(key);
+    }
+
+    if (!isDraftable(current) || states.has(current) || current !== baseValue) {
+      return current;
+    }
+
+    const draft = createDraft(current, state);
+
+    if (state.copy) {
+      put(draft);
+    } else {
+      state.drafts.set(key, draft);
+    }
+
+    return draft;
+  };
+
+  const read = (state: DraftState, key: string | symbol): unknown => {
+    const container = source(state) as Container;
+
+    if (!hasOwn(container, key)) return container[key as string];
+
+    return readChild(
+      state,
+      key,
+      container[key as string],
+      (state.base as Container)[key as string],
+      (draft) => {
+        (state.copy as Container)[key as string] = draft;
+      }
+    );
+  };
+
+  const readEntry = (state: DraftState, key: unknown): unknown =>
+    readChild(
+      state,
+      key,
+      (source(state) as AnyMap).get(key),
+      (state.base as AnyMap).get(key),
+      (draft) => {
+        (state.copy as AnyMap).set(key, draft);
+      }
+    );
+
+  const createObjectHandler = (state: DraftState): ProxyHandler<Container> => ({
+    get: (_, key) => read(state, key),
+    set: (_, key, next) => {
+      const current = (source(state) as Container)[key as string];
+
+      if (
+        current === next &&
+        (next !== undefined || hasOwn(source(state), key))
+      ) {
+        return true;
+      }
+
+      markChanged(state);
+      (state.copy as Container)[key as string] = next;
+
+      return true;
+    },
+    deleteProperty: (_, key) => {
+      if (hasOwn(source(state), key)) {
+        markChanged(state);
+        delete (state.copy as Container)[key as string];
+      }
+
+      return true;
+    },
+    has: (_, key) => key in source(state),
+    ownKeys: () => Reflect.ownKeys(source(state)),
+    getOwnPropertyDescriptor: (target, key) => {
+      const descriptor = Reflect.getOwnPropertyDescriptor(source(state), key);
+
+      if (!descriptor) return descriptor;
+
+      // Array `length` is the only non-configurable property of a target
+      return key === 'length' && Array.isArray(target)
+        ? { ...descriptor, writable: true, configurable: false }
+        : {
+            ...descriptor,
+            value: read(state, key),
+            writable: true,
+            configurable: true,
+          };
+    },
+    getPrototypeOf: () => Object.getPrototypeOf(state.base),
+    defineProperty: () => {
+      throw new TypeError('Drafts do not support defineProperty');
+    },
+    setPrototypeOf: () => {
+      throw new TypeError('Drafts do not support setPrototypeOf');
+    },
+  });
+
+  // `Map`, `Set` and `Date` keep their data in internal slots, so methods are
+  // called on the base or the copy, which is made by the first write. Values
+  // of a `Map` are drafted when read; values of a `Set` are not.
+  const createBuiltinHandler = (state: DraftState): ProxyHandler<Base> => ({
+    get: (_, key, receiver) => {
+      const { base } = state;
+
+      if (base instanceof Map && key === 'get') {
+        return (entryKey: unknown) => readEntry(state, entryKey);
+      }
+
+      if (
+        base instanceof Map &&
+        (MAP_READS.indexOf(key as string) !== -1 || key === Symbol.iterator)
+      ) {
+        const entries = Array.from((source(state) as AnyMap).keys()).map(
+          (entryKey) => [entryKey, readEntry(state, entryKey)]
+        );
+
+        if (key === 'forEach') {
+          return (
+            callback: (value: unknown, key: unknown, map: unknown) => void
+          ) =>
+            entries.forEach(([entryKey, value]) =>
+              callback(value, entryKey, receiver)
+            );
+        }
+
+        return () =>
+          (key === 'values' ? entries.map(([, value]) => value) : entries)[
+            Symbol.iterator
+          ]();
+      }
+
+      const isWrite =
+        typeof key === 'string' &&
+        (base instanceof Map
+          ? MAP_WRITES.indexOf(key) !== -1
+          : base instanceof Set
+            ? SET_WRITES.indexOf(key) !== -1
+            : key.slice(0, 3) === 'set');
+
+      if (isWrite) {
+        return (...args: unknown[]) => {
+          if (!changesCollection(source(state), key as string, args)) {
+            return key === 'delete'
+              ? false
+              : key === 'clear'
+                ? undefined
+                : receiver;
+          }
+
+          markChanged(state);
+
+          const copy = state.copy as unknown as Record<
+            string,
+            (...params: unknown[]) => unknown
+          >;
+          const result = copy[key as string](...args);
+
+          // `Map#set` and `Set#add` return the collection for chaining
+          return result === copy ? receiver : result;
+        };
+      }
+
+      const target = source(state);
+      const value = Reflect.get(target, key, target);
+
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+    set: () => {
+      throw new TypeError(
+        'Drafts of Map, Set and Date do not support properties'
+      );
+    },
+  });
+
+  const createDraft = (value: Base, parent: DraftState | null): Base => {
+    const state: DraftState = {
+      base: value,
+      copy: null,
+      parent,
+      drafts: new Map(),
+    };
+    // The target of a plain container is a fresh one, so frozen bases do not
+    // restrict what the traps may report
+    const { proxy, revoke } = isPlainContainer(value)
+      ? Proxy.revocable(
+          (Array.isArray(value) ? [] : {}) as Container,
+          createObjectHandler(state)
+        )
+      : Proxy.revocable(value, createBuiltinHandler(state));
+
+    states.set(proxy, state);
+    revokes.push(revoke);
+
+    return proxy;
+  };
+
+  // Replaces drafts by their results, including drafts placed inside new
+  // objects by the recipe
+  const finalizeChildren = (value: Base, seen: Set<unknown>): void => {
+    if (value instanceof Map) {
+      value.forEach((item, key) => {
+        value.set(key, finalize(item, seen));
+      });
+    } else if (value instanceof Set) {
+      const items = Array.from(value);
+
+      value.clear();
+      items.forEach((item) => value.add(finalize(item, seen)));
+    } else if (!(value instanceof Date)) {
+      Object.keys(value).forEach((key) => {
+        value[key] = finalize(value[key], seen);
+      });
+    }
+  };
+
+  const finalize = (value: unknown, seen: Set<unknown>): unknown => {
+    const state = states.get(value);
+
+    if (state) {
+      if (!state.copy) return state.base;
+
+      const { base, copy } = state;
+
+      if (copy instanceof Map) {
+        copy.forEach((item, key) => {
+          if (item !== (base as AnyMap).get(key)) {
+            copy.set(key, finalize(item, seen));
+          }
+        });
+      } else if (copy instanceof Set) {
+        const items = Array.from(copy);
+
+        copy.clear();
+        items.forEach((item) =>
+          copy.add((base as AnySet).has(item) ? item : finalize(item, seen))
+        );
+      } else if (!(copy instanceof Date)) {
+        Object.keys(copy).forEach((key) => {
+          if (copy[key] !== (base as Container)[key]) {
+            copy[key] = finalize(copy[key], seen);
+          }
+        });
+      }
+
+      return copy;
+    }
+
+    if (isDraftable(value) && !Object.isFrozen(value) && !seen.has(value)) {
+      seen.add(value);
+      finalizeChildren(value, seen);
+    }
+
+    return value;
+  };
+
+  const root = createDraft(base, null);
+
+  try {
+    const result = recipe(root as Draft<T>);
+
+    return finalize(result === undefined ? root : result, new Set()) as T;
+  } finally {
+    revokes.forEach((revoke) => revoke());
+  }
+};
+
+/**
+ * Creates a `set` updater from a recipe that mutates a draft of the present,
+ * like Immer: `set(produce((draft) => { draft.title = 'New' }))`. Only the
+ * changed containers and their ancestors get new references. A recipe may
+ * also return a new state instead of mutating the draft.
+ */
+export const produce =
+  <T>(recipe: (draft: Draft<T>) => T | void) =>
+  (base: T): T =>
+    produceFrom(base, recipe);
@@ -0,0 +1,271 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import { SyncChannel, SyncMessage } from './sync';
+import { UndoRedoStore } from './UndoRedoStore';
+import { useUndoRedo } from './useUndoRedo';
+
+type Listener = (event: { data: SyncMessage<unknown> }) => void;
+
+// In-memory BroadcastChannel: messages are queued and delivered on flush, to
+// every channel with the same name except the sender.
+const createHub = () => {
+  const channels: { name: string; listeners: Set<Listener> }[] = [];
+  const queue: (() => void)[] = [];
+
+  const createChannel = (name: string): SyncChannel => {
+    const entry = { name, listeners: new Set<Listener>() };
+
+    channels.push(entry);
+
+    return {
+      postMessage: (message) => {
+        const data = JSON.parse(JSON.stringify(message));
+
+        channels
+          .filter((other) => other !== entry && other.name === name)
+          .forEach((other) =>
+            queue.push(() =>
+              other.listeners.forEach((listener) => listener({ data }))
+            )
+          );
+      },
+      addEventListener: (_, listener) => entry.listeners.add(listener),
+      removeEventListener: (_, listener) => entry.listeners.delete(listener),
+      close: () => {
+        channels.splice(channels.indexOf(entry), 1);
+      },
+    };
+  };
+
+  const flush = () => {
+    while (queue.length > 0) {
+      queue.shift()!();
+    }
+  };
+
+  return { createChannel, flush };
+};
+
+const createPair = <T>(initialValue: T) => {
+  const hub = createHub();
+  const sync = { channel: 'doc', createChannel: hub.createChannel };
+  const a = new UndoRedoStore(initialValue, { sync });
+  const b = new UndoRedoStore(initialValue, { sync });
+
+  a.connect();
+  b.connect();
+  hub.flush();
+
+  return { a, b, flush: hub.flush };
+};
+
+describe('sync', () => {
+  it('should replay set, undo, redo and reset in other instances', () => {
+    const { a, b, flush } = createPair('initial');
+
+    a.set('state 1');
+    a.set('state 2');
+    flush();
+
+    expect(b.getSnapshot().present).toBe('state 2');
+    expect(b.getHistory().past).toEqual(['initial', 'state 1']);
+
+    b.undo(2);
+    flush();
+
+    expect(a.getSnapshot().present).toBe('initial');
+    expect(a.getHistory().future).toEqual(['state 1', 'state 2']);
+
+    a.redo();
+    flush();
+
+    expect(b.getSnapshot().present).toBe('state 1');
+
+    b.reset('fresh');
+    flush();
+
+    expect(a.getSnapshot().present).toBe('fresh');
+    expect(a.canUndo).toBe(false);
+  });
+
+  it('should send a committed batch as a single set', () => {
+    const { a, b, flush } = createPair({ count: 0 });
+
+    a.withBatch(() => {
+      a.set({ count: 1 });
+      a.set({ count: 2 });
+    });
+    flush();
+
+    expect(b.getSnapshot().present).toEqual({ count: 2 });
+    expect(b.getHistory().past).toEqual([{ count: 0 }]);
+  });
+
+  it('should call callbacks only in the instance that made the change', () => {
+    const hub = createHub();
+    const onSet = jest.fn();
+    const sync = { channel: 'doc', createChannel: hub.createChannel };
+    const a = new UndoRedoStore<number>(0, { sync, onSet });
+    const b = new UndoRedoStore<number>(0, { sync, onSet });
+
+    a.connect();
+    b.connect();
+    a.set(1);
+    hub.flush();
+
+    expect(b.getSnapshot().present).toBe(1);
+    expect(onSet).toHaveBeenCalledTimes(1);
+  });
+
+  it('should converge on one history after concurrent changes', () => {
+    const { a, b, flush } = createPair('initial');
+
+    a.set('from a');
+    b.set('from b');
+    flush();
+
+    expect(a.getSnapshot()).toEqual(b.getSnapshot());
+    expect(['from a', 'from b']).toContain(a.getSnapshot().present);
+
+    a.set('after');
+    flush();
+
+    expect(b.getSnapshot().present).toBe('after');
+  });
+
+  it('should drop an open batch when a remote change arrives', () => {
+    const { a, b, flush } = createPair({ n: 0 });
+
+    a.set({ n: 3 });
+    flush();
+    a.startBatch();
+    a.set({ n: 10 });
+    b.set({ n: 20 });
+    flush();
+    a.endBatch();
+    flush();
+
+    expect(a.getSnapshot().isBatching).toBe(false);
+    expect(a.getSnapshot().present).toEqual({ n: 20 });
+    expect(a.getHistory().past).toEqual(b.getHistory().past);
+
+    a.undo();
+    flush();
+
+    expect(b.getSnapshot().present).toEqual({ n: 3 });
+    expect(a.getSnapshot()).toEqual(b.getSnapshot());
+  });
+
+  it('should prefer the history with more transitions', () => {
+    const { a, b, flush } = createPair('initial');
+
+    a.set('a1');
+    a.set('a2');
+    b.set('b1');
+    flush();
+
+    expect(a.getSnapshot().present).toBe('a2');
+    expect(b.getSnapshot().present).toBe('a2');
+    expect(b.getHistory().past).toEqual(['initial', 'a1']);
+  });
+
+  it('should send the current history to instances that connect later', () => {
+    const hub = createHub();
+    const sync = { channel: 'doc', createChannel: hub.createChannel };
+    const a = new UndoRedoStore('initial', { sync });
+
+    a.connect();
+    a.set('state 1');
+
+    const b = new UndoRedoStore('initial', { sync });
+
+    b.connect();
+    hub.flush();
+
+    expect(b.getSnapshot().present).toBe('state 1');
+    expect(b.canUndo).toBe(true);
+  });
+
+  it('should ignore instances on other channels and after disconnect', () => {
+    const hub = createHub();
+    const a = new UndoRedoStore(0, {
+      sync: { channel: 'one', createChannel: hub.createChannel },
+    });
+    const b = new UndoRedoStore(0, {
+      sync: { channel: 'two', createChannel: hub.createChannel },
+    });
+
+    a.connect();
+    const disconnect = b.connect();
+
+    a.set(1);
+    hub.flush();
+
+    expect(b.getSnapshot().present).toBe(0);
+
+    disconnect();
+    b.set(2);
+    hub.flush();
+
+    expect(a.getSnapshot().present).toBe(1);
+  });
+
+  it('should synchronize hooks sharing a channel', () => {
+    const hub = createHub();
+    const options = {
+      sync: { channel: 'doc', createChannel: hub.createChannel },
+    };
+    const first = renderHook(() => useUndoRedo('initial', options));
+    const second = renderHook(() => useUndoRedo('initial', options));
+
+    act(() => {
+      hub.flush();
+      first.result.current.set('typed');
+    });
+
+    act(() => {
+      hub.flush();
+    });
+
+    expect(second.result.current.state).toBe('typed');
+    expect(second.result.current.canUndo).toBe(true);
+
+    first.unmount();
+    second.unmount();
+  });
+
+  it('should replay coalesced sets as merges', () => {
+    const hub = createHub();
+    const sync = { channel: 'doc', createChannel: hub.createChannel };
+    const a = new UndoRedoStore<string>('', { sync, coalesce: 1000 });
+    const b = new UndoRedoStore<string>('', { sync });
+
+    a.connect();
+    b.connect();
+    hub.flush();
+
+    a.set('h');
+    a.set('hi');
+    hub.flush();
+
+    expect(b.getSnapshot().present).toBe('hi');
+    expect(b.getHistory().past).toEqual(['']);
+  });
+
+  it('should replace the history of other instances on import', () => {
+    const { a, b, flush } = createPair('initial');
+    const source = new UndoRedoStore('one');
+
+    source.set('two');
+    source.set('three');
+    source.undo();
+
+    b.set('local');
+    flush();
+    a.importHistory(source.exportHistory());
+    flush();
+
+    expect(b.getSnapshot().present).toBe('two');
+    expect(b.getHistory().past).toEqual(['one']);
+    expect(b.getHistory().future).toEqual(['three']);
+  });
+});
@@ -0,0 +1,76 @@
+import { HistoryDocument } from './historyDocument';
+import { PersistedState } from './persist';
+import { EntryInfo } from './types';
+
+export type SyncAction<T> =
+  | { type: 'set'; value: T; info: EntryInfo }
+  | { type: 'merge'; value: T; info: EntryInfo }
+  | { type: 'replace'; value: T }
+  | { type: 'undo'; steps: number }
+  | { type: 'redo'; steps: number }
+  | { type: 'reset'; value: T; info: EntryInfo }
+  | { type: 'switchBranch'; nodeId: number }
+  | { type: 'import'; document: HistoryDocument<T> };
+
+/**
+ * Messages exchanged between instances. Every history version is identified
+ * by its `revision` (number of synced transitions) and the id of the instance
+ * that wrote it, which is empty for the initial version.
+ */
+export type SyncMessage<T> =
+  | {
+      kind: 'action';
+      action: SyncAction<T>;
+      sourceId: string;
+      baseRevision: number;
+      baseWriterId: string;
+      revision: number;
+    }
+  | {
+      kind: 'state';
+      state: PersistedState<T>;
+      sourceId: string;
+      writerId: string;
+      revision: number;
+    }
+  | { kind: 'request'; sourceId: string };
+
+/** Subset of `BroadcastChannel` used for synchronization. */
+export interface SyncChannel {
+  postMessage: (message: SyncMessage<unknown>) => void;
+  addEventListener: (
+    type: 'message',
+    listener: (event: { data: SyncMessage<unknown> }) => void
+  ) => void;
+  removeEventListener: (
+    type: 'message',
+    listener: (event: { data: SyncMessage<unknown> }) => void
+  ) => void;
+  close: () => void;
+}
+
+export interface SyncOptions {
+  /** Instances using the same channel name share their history. */
+  channel: string;
+  /** Defaults to `new BroadcastChannel(name)`. */
+  createChannel?: (name: string) => SyncChannel;
+}
+
+export const createBroadcastChannel = (name: string): SyncChannel =>
+  new BroadcastChannel(name);
+
+export const createSyncId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Conflict rule: the history with more transitions wins, ties are broken by
+ * comparing writer ids so every instance picks the same winner.
+ */
+export const isNewerRevision = (
+  revision: number,
+  writerId: string,
+  otherRevision: number,
+  otherWriterId: string
+): boolean =>
+  revision > otherRevision ||
+  (revision === otherRevision && writerId > otherWriterId);
@@ -0,0 +1,334 @@
+import { HistoryCodec } from './codec';
+import {
+  ExportHistoryOptions,
+  HistoryDocument,
+  ImportHistoryOptions,
+} from './historyDocument';
+import { HistoryNode, HistoryTree, HistoryTreeNode } from './historyTree';
+import { HistoryPatch, PatchConflict, RebaseResult } from './patch';
+import { HydrationStatus, PersistOptions } from './persist';
+import { SyncOptions } from './sync';
+import { UndoRedoAction } from './undoable';
+
+export interface Options<T> {
+  maxHistorySize?: number;
+  /**
+   * Drops the oldest `past` entries while `past` is larger than this when an
+   * entry is recorded. `future` entries are not limited.
+   */
+  maxHistoryBytes?: number;
+  /**
+   * Size of an uncompressed entry (a state, or a patch in `patch` mode) for
+   * `maxHistoryBytes`. Compressed entries are measured exactly.
+   */
+  estimateSize?: (entry: unknown) => number;
+  equalFn?: (a: T, b: T) => boolean;
+  /**
+   * Treats states as immutable: they are recorded and restored without
+   * cloning, so unchanged subtrees keep their references across history.
+   * States must not be mutated after they are passed to `set`.
+   */
+  immutable?: boolean;
+  /** Deep-freezes every state that becomes the present, for development. */
+  freeze?: boolean;
+  compressHistory?: boolean;
+  /** Encoding of compressed entries, defaults to `jsonCodec`. */
+  codec?: HistoryCodec;
+  historyStorage?: HistoryStorage;
+  branching?: boolean;
+  persist?: PersistOptions<T>;
+  sync?: SyncOptions;
+  /**
+   * Merges consecutive `set` calls into the current entry. A number is a
+   * shorthand for `{ window }`.
+   */
+  coalesce?: number | CoalesceOptions<T>;
+  /**
+   * Returns `false` for changes that should update the present without a
+   * history entry, like `set(value, { skipHistory: true })`.
+   */
+  filter?: (prev: T, next: T) => boolean;
+  /**
+   * Combines the state restored by undo, redo or a branch switch with the
+   * present being left, e.g. to carry selection or scroll position forward.
+   * Without it, ignored changes are restored along with the entry.
+   */
+  mergeIgnored?: (restored: T, current: T) => T;
+
+  /** Name under which the instance is listed in `UndoRedoDevtools`. */
+  devtools?: string;
+
+  // Callbacks for undo/redo/set, called for the matching history events
+  onUndo?: (prevState: T, nextState: T) => void;
+  onRedo?: (prevState: T, nextState: T) => void;
+  onSet?: (prevState: T, nextState: T) => void;
+  /** Called with the entries dropped by `maxHistorySize` or `maxHistoryBytes`. */
+  onEvict?: (evicted: EntryInfo[]) => void;
+}
+
+/**
+ * A `set` is merged into the entry recorded by the previous `set` when it
+ * comes within `window` ms of it and `shouldMerge` allows it. With both
+ * given, both must hold.
+ */
+export interface CoalesceOptions<T> {
+  window?: number;
+  shouldMerge?: (prev: T, next: T, lastEntryMeta: EntryInfo) => boolean;
+}
+
+/**
+ * `snapshot` keeps a full copy of every state, `patch` keeps only the
+ * structural difference between neighbouring states.
+ */
+export type HistoryStorage = 'snapshot' | 'patch';
+
+export type CompressedData = string;
+
+export type StoredData<T> = T | CompressedData | HistoryPatch;
+
+/**
+ * A new value or a function computing it from the latest present. As with
+ * React's `setState`, function values must be passed through an updater.
+ */
+export type SetStateAction<T> = T | ((prev: T) => T);
+
+export interface EntryOptions {
+  label?: string;
+  meta?: Record<string, unknown>;
+  /** Defaults to `Date.now()`. */
+  timestamp?: number;
+}
+
+export interface SetOptions extends EntryOptions {
+  /**
+   * Changes the present without recording an entry, e.g. for selection or
+   * scroll position. Undo goes back to the previous entry as recorded.
+   * Inside a batch the change becomes part of the batch entry.
+   */
+  skipHistory?: boolean;
+}
+
+export interface TransactionOptions extends EntryOptions {
+  /** Restore the state from before the transaction when it fails, defaults to `true`. */
+  rollback?: boolean;
+}
+
+export interface RevertOptions<T> extends EntryOptions {
+  /**
+   * Reverts the change from `before` to `after` on top of `present`, defaults
+   * to `rebaseInverse`, which undoes the change path by path.
+   */
+  rebase?: (present: T, before: T, after: T) => RebaseResult<T>;
+  /**
+   * `'abort'` (the default) leaves the state unchanged when there are
+   * conflicts, `'skip'` records the rebased state anyway.
+   */
+  onConflict?: 'abort' | 'skip';
+}
+
+export interface RevertResult {
+  /**
+   * Whether the revert was recorded as a new entry, or as part of the open
+   * batch.
+   */
+  applied: boolean;
+  conflicts: PatchConflict[];
+}
+
+export interface ResetOptions extends EntryOptions {
+  /** Keep the checkpoints created before the reset, defaults to `false`. */
+  keepCheckpoints?: boolean;
+}
+
+/** Named snapshot created by `createCheckpoint`. */
+export interface Checkpoint {
+  name: string;
+  timestamp: number;
+  meta?: Record<string, unknown>;
+}
+
+export interface CheckpointOptions {
+  meta?: Record<string, unknown>;
+  /** Defaults to `Date.now()`. */
+  timestamp?: number;
+}
+
+/** Describes the change that produced a state. */
+export interface EntryInfo {
+  label?: string;
+  timestamp: number;
+  meta?: Record<string, unknown>;
+}
+
+export interface HistoryEntry<T> extends EntryInfo {
+  state: T;
+}
+
+/**
+ * Local history change, passed to `subscribe` listeners of the hook once the
+ * new snapshot is committed. `set` is emitted for every recorded entry,
+ * including committed batches (`merged` when coalesced into the previous
+ * entry); `batchCommit` follows with the entry info, or `null` when the batch
+ * changed nothing.
+ */
+export type HistoryEvent<T> =
+  | {
+      type: 'set';
+      prevState: T;
+      nextState: T;
+      info: EntryInfo;
+      merged: boolean;
+    }
+  | { type: 'undo' | 'redo'; prevState: T; nextState: T; steps: number }
+  | { type: 'switchBranch'; prevState: T; nextState: T; nodeId: number }
+  | { type: 'reset'; state: T; info: EntryInfo }
+  | { type: 'batchStart' }
+  | { type: 'batchCommit'; info: EntryInfo | null }
+  | { type: 'batchRollback' }
+  | { type: 'evict'; entries: EntryInfo[] };
+
+export type HistoryEventListener<T> = (event: HistoryEvent<T>) => void;
+
+export interface UndoRedoState<T> {
+  past: StoredData<T>[];
+  present: T;
+  future: StoredData<T>[];
+  pastInfo: EntryInfo[];
+  presentInfo: EntryInfo;
+  futureInfo: EntryInfo[];
+  isCompressed: boolean;
+  historyStorage: HistoryStorage;
+  isBatching: boolean;
+  tree: HistoryTree<T> | null;
+}
+
+export interface History<T> {
+  /** Read-only, states are decoded when first read. */
+  past: readonly T[];
+  future: readonly T[];
+  /** `[...past, present, ...future]` with labels; indexes match `goTo`. */
+  entries: HistoryEntry<T>[];
+  /**
+   * Size of the `past` and `future` entries, measured like for
+   * `maxHistoryBytes`, which only bounds `past`. After undo it may exceed the
+   * budget.
+   */
+  byteSize: number;
+}
+
+export interface UndoRedoResult<T> {
+  state: T;
+  subscribe: (listener: HistoryEventListener<T>) => () => void;
+  set: (newValue: SetStateAction<T>, options?: SetOptions) => void;
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
+  goTo: (index: number) => void;
+  getTree: () => HistoryTreeNode | null;
+  getBranches: (nodeId?: number) => HistoryNode[];
+  getNodeState: (nodeId: number) => T | undefined;
+  switchBranch: (nodeId: number) => void;
+  reset: (value: T, options?: ResetOptions) => void;
+  startBatch: () => void;
+  endBatch: (options?: EntryOptions) => void;
+  withBatch: <R>(fn: (state: T) => R, options?: EntryOptions) => R;
+  withTransaction: <R>(
+    fn: (state: T) => R | PromiseLike<R>,
+    options?: TransactionOptions
+  ) => Promise<R>;
+  revertEntry: (index: number, options?: RevertOptions<T>) => RevertResult;
+  exportHistory: (options?: ExportHistoryOptions) => HistoryDocument<T>;
+  importHistory: (document: unknown, options?: ImportHistoryOptions<T>) => void;
+  markSaved: () => void;
+  revertToSaved: (options?: EntryOptions) => void;
+  createCheckpoint: (name: string, options?: CheckpointOptions) => Checkpoint;
+  listCheckpoints: () => Checkpoint[];
+  restoreCheckpoint: (name: string, options?: EntryOptions) => void;
+  deleteCheckpoint: (name: string) => boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  isDirty: boolean;
+  canUndoToSaved: boolean;
+  history: History<T>;
+  isCompressed: boolean;
+  hydrationStatus: HydrationStatus;
+}
+
+export interface UndoRedoReducerResult<T, A> extends UndoRedoResult<T> {
+  dispatch: (action: A | UndoRedoAction) => void;
+}
+
+/**
+ * Reversible operation recorded by `useUndoRedoCommands`. `do` is called when
+ * the command is executed and on redo, `undo` reverts it.
+ */
+export interface Command {
+  do: () => void;
+  undo: () => void;
+  label?: string;
+  /**
+   * Called with the next executed command. Returning a command replaces both
+   * with it in history, returning `undefined` records `next` separately.
+   */
+  merge?: (next: Command) => Command | undefined;
+}
+
+export interface CommandOptions {
+  maxHistorySize?: number;
+
+  // Called once per transition, after the commands have run
+  onUndo?: (commands: Command[]) => void;
+  onRedo?: (commands: Command[]) => void;
+  onExecute?: (command: Command) => void;
+}
+
+export interface CommandBatchOptions {
+  /** Label of the composite command, defaults to the last labeled command. */
+  label?: string;
+}
+
+export interface CommandHistoryState {
+  /** Executed commands, oldest first. */
+  past: Command[];
+  /** Undone commands, the next one to redo first. */
+  future: Command[];
+  isBatching: boolean;
+}
+
+export interface UndoRedoCommandsResult {
+  execute: (command: Command) => void;
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
+  clear: () => void;
+  startBatch: () => void;
+  endBatch: (options?: CommandBatchOptions) => void;
+  withBatch: <R>(fn: () => R, options?: CommandBatchOptions) => R;
+  canUndo: boolean;
+  canRedo: boolean;
+  history: { past: Command[]; future: Command[] };
+}
+
+export interface GlobalUndoRedoResult {
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Key combinations such as `'Mod+Z'` or `'Ctrl+Shift+Z'`. `Mod` is Cmd on
+ * macOS and Ctrl elsewhere.
+ */
+export interface ShortcutKeymap {
+  undo: string[];
+  redo: string[];
+}
+
+export interface UndoRedoShortcutsOptions {
+  /** Element (or ref to one) receiving the keydown events, `window` by default. */
+  target?: EventTarget | { current: EventTarget | null } | null;
+  /** Defaults to `Mod+Z` for undo, `Mod+Shift+Z` and `Ctrl+Y` (not on macOS) for redo. */
+  keymap?: Partial<ShortcutKeymap>;
+  /** Leaves shortcuts in text inputs and contenteditable to the browser, defaults to `true`. */
+  ignoreInputs?: boolean;
+  enabled?: boolean;
+}
@@ -0,0 +1,156 @@
+import { UndoableState, undoRedoActions, undoable } from './undoable';
+
+type TodoAction =
+  { type: 'add'; text: string } | { type: 'select'; index: number };
+
+interface Todos {
+  items: string[];
+  selected: number;
+}
+
+const todos = (
+  state: Todos = { items: [], selected: -1 },
+  action: TodoAction
+): Todos => {
+  switch (action.type) {
+    case 'add':
+      return { ...state, items: [...state.items, action.text] };
+    case 'select':
+      return { ...state, selected: action.index };
+    default:
+      return state;
+  }
+};
+
+const init = { type: '@@INIT' } as unknown as TodoAction;
+
+describe('undoable', () => {
+  it('should record every action and move through history', () => {
+    const reducer = undoable(todos);
+    let state = reducer(undefined, init);
+
+    state = reducer(state, { type: 'add', text: 'a' });
+    state = reducer(state, { type: 'add', text: 'b' });
+
+    expect(state.present.items).toEqual(['a', 'b']);
+    expect(state.past).toHaveLength(2);
+
+    state = reducer(state, undoRedoActions.undo());
+
+    expect(state.present.items).toEqual(['a']);
+
+    state = reducer(state, undoRedoActions.jump(0));
+
+    expect(state.present.items).toEqual([]);
+    expect(state.future).toHaveLength(2);
+
+    state = reducer(state, undoRedoActions.redo(2));
+
+    expect(state.present.items).toEqual(['a', 'b']);
+  });
+
+  it('should return the same state for actions that change nothing', () => {
+    const reducer = undoable(todos);
+    const state = reducer(undefined, init);
+
+    expect(reducer(state, undoRedoActions.undo())).toBe(state);
+    expect(reducer(state, { type: 'other' } as unknown as TodoAction)).toBe(
+      state
+    );
+  });
+
+  it('should apply filtered actions without history entries', () => {
+    const reducer = undoable(todos, {
+      filter: (action) => action.type !== 'select',
+    });
+    let state = reducer(undefined, init);
+
+    state = reducer(state, { type: 'add', text: 'a' });
+    state = reducer(state, { type: 'select', index: 0 });
+
+    expect(state.present.selected).toBe(0);
+    expect(state.past).toHaveLength(1);
+
+    state = reducer(state, undoRedoActions.undo());
+
+    expect(state.present).toEqual({ items: [], selected: -1 });
+  });
+
+  it('should record nested batches as one entry', () => {
+    const reducer = undoable(todos);
+    let state = reducer(undefined, init);
+
+    state = reducer(state, undoRedoActions.batchStart());
+    state = reducer(state, { type: 'add', text: 'a' });
+    state = reducer(state, undoRedoActions.batchStart());
+    state = reducer(state, { type: 'add', text: 'b' });
+    state = reducer(state, undoRedoActions.batchEnd());
+
+    expect(state.isBatching).toBe(true);
+    expect(state.past).toHaveLength(0);
+
+    state = reducer(state, undoRedoActions.batchEnd({ label: 'add two' }));
+
+    expect(state.isBatching).toBe(false);
+    expect(state.past).toHaveLength(1);
+    expect(state.presentInfo.label).toBe('add two');
+
+    state = reducer(state, undoRedoActions.undo());
+
+    expect(state.present.items).toEqual([]);
+  });
+
+  it('should clear history', () => {
+    const reducer = undoable(todos);
+    let state = reducer(undefined, init);
+
+    state = reducer(state, { type: 'add', text: 'a' });
+    state = reducer(state, undoRedoActions.clearHistory());
+
+    expect(state.present.items).toEqual(['a']);
+    expect(state.past).toHaveLength(0);
+  });
+
+  it('should share history options with useUndoRedo', () => {
+    const onUndo = jest.fn();
+    const reducer = undoable(todos, {
+      maxHistorySize: 1,
+      compressHistory: true,
+      onUndo,
+    });
+    let state = reducer(undefined, init);
+
+    state = reducer(state, { type: 'add', text: 'a' });
+    state = reducer(state, { type: 'add', text: 'b' });
+
+    expect(state.past).toEqual([
+      JSON.stringify({ items: ['a'], selected: -1 }),
+    ]);
+
+    state = reducer(state, undoRedoActions.undo());
+
+    expect(onUndo).toHaveBeenCalledWith(
+      { items: ['a', 'b'], selected: -1 },
+      { items: ['a'], selected: -1 }
+    );
+  });
+
+  it('should continue from states it did not produce', () => {
+    const reducer = undoable(todos);
+    const first = reducer(undefined, init);
+    const second = reducer(first, { type: 'add', text: 'a' });
+    const third: UndoableState<Todos> = reducer(second, {
+      type: 'add',
+      text: 'b',
+    });
+
+    // Going back to an older state, e.g. with Redux devtools
+    const branch = reducer(second, { type: 'add', text: 'c' });
+
+    expect(third.present.items).toEqual(['a', 'b']);
+    expect(branch.present.items).toEqual(['a', 'c']);
+    expect(reducer(branch, undoRedoActions.undo()).present.items).toEqual([
+      'a',
+    ]);
+  });
+});
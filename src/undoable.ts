@@ -0,0 +1,211 @@
+import { UndoRedoStore } from './UndoRedoStore';
+import { EntryOptions, Options, UndoRedoState } from './types';
+
+export const UndoRedoActionTypes = {
+  UNDO: '@@undo-redo/UNDO',
+  REDO: '@@undo-redo/REDO',
+  JUMP: '@@undo-redo/JUMP',
+  CLEAR_HISTORY: '@@undo-redo/CLEAR_HISTORY',
+  BATCH_START: '@@undo-redo/BATCH_START',
+  BATCH_END: '@@undo-redo/BATCH_END',
+} as const;
+
+export type UndoRedoAction =
+  | { type: typeof UndoRedoActionTypes.UNDO; steps?: number }
+  | { type: typeof UndoRedoActionTypes.REDO; steps?: number }
+  | { type: typeof UndoRedoActionTypes.JUMP; index: number }
+  | { type: typeof UndoRedoActionTypes.CLEAR_HISTORY; options?: EntryOptions }
+  | { type: typeof UndoRedoActionTypes.BATCH_START }
+  | { type: typeof UndoRedoActionTypes.BATCH_END; options?: EntryOptions };
+
+export const undoRedoActions = {
+  undo: (steps?: number): UndoRedoAction => ({
+    type: UndoRedoActionTypes.UNDO,
+    steps,
+  }),
+  redo: (steps?: number): UndoRedoAction => ({
+    type: UndoRedoActionTypes.REDO,
+    steps,
+  }),
+  jump: (index: number): UndoRedoAction => ({
+    type: UndoRedoActionTypes.JUMP,
+    index,
+  }),
+  clearHistory: (options?: EntryOptions): UndoRedoAction => ({
+    type: UndoRedoActionTypes.CLEAR_HISTORY,
+    options,
+  }),
+  batchStart: (): UndoRedoAction => ({ type: UndoRedoActionTypes.BATCH_START }),
+  batchEnd: (options?: EntryOptions): UndoRedoAction => ({
+    type: UndoRedoActionTypes.BATCH_END,
+    options,
+  }),
+};
+
+export type Reducer<T, A> = (state: T, action: A) => T;
+
+/**
+ * `persist` and `sync` are left to the store holding the reducer state, and
+ * branching is not supported.
+ */
+export interface UndoableOptions<T, A> extends Omit<
+  Options<T>,
+  'persist' | 'sync' | 'branching' | 'filter'
+> {
+  /**
+   * Returns `false` for actions that change the present without a history
+   * entry, e.g. selection changes. All actions create entries by default.
+   */
+  filter?: (action: A, prev: T, next: T) => boolean;
+}
+
+/** History snapshot with the batch bookkeeping of `undoable`. */
+export interface UndoableState<T> extends UndoRedoState<T> {
+  batchDepth: number;
+  /** Present when the outermost batch started. */
+  batchStart: T | null;
+}
+
+const isUndoRedoAction = (action: unknown): action is UndoRedoAction => {
+  if (!action || typeof action !== 'object') return false;
+
+  const { type } = action as { type?: unknown };
+
+  return Object.keys(UndoRedoActionTypes).some(
+    (key) =>
+      UndoRedoActionTypes[key as keyof typeof UndoRedoActionTypes] === type
+  );
+};
+
+/** Drops `filter`, which takes the action, before passing options to the store. */
+export const toStoreOptions = <T, A>({
+  filter,
+  ...options
+}: UndoableOptions<T, A>): Options<T> => options;
+
+/**
+ * Applies a history action, or runs `reducer` and records its result,
+ * honouring `filter`. Shared by `undoable` and `useUndoRedoReducer`; batch
+ * actions are handled by the callers.
+ */
+export const dispatchToStore = <T, A>(
+  store: UndoRedoStore<T>,
+  reducer: Reducer<T, A>,
+  action: A | UndoRedoAction,
+  filter?: (action: A, prev: T, next: T) => boolean
+): void => {
+  if (!isUndoRedoAction(action)) {
+    const prev = store.getSnapshot().present;
+    const next = reducer(prev, action);
+
+    store.set(() => next, {
+      skipHistory: filter ? !filter(action, prev, next) : false,
+    });
+
+    return;
+  }
+
+  switch (action.type) {
+    case UndoRedoActionTypes.UNDO:
+      store.undo(action.steps);
+      break;
+    case UndoRedoActionTypes.REDO:
+      store.redo(action.steps);
+      break;
+    case UndoRedoActionTypes.JUMP:
+      store.goTo(action.index);
+      break;
+    case UndoRedoActionTypes.CLEAR_HISTORY:
+      store.reset(store.getSnapshot().present, action.options);
+      break;
+    case UndoRedoActionTypes.BATCH_START:
+      store.startBatch();
+      break;
+    case UndoRedoActionTypes.BATCH_END:
+      store.endBatch(action.options);
+      break;
+  }
+};
+
+/**
+ * Wraps a reducer with undo history for Redux-style stores. History
+ * actions (`undoRedoActions`) move through history, every other action is
+ * passed to `reducer` and recorded like `set`. The returned reducer keeps a
+ * private `UndoRedoStore`, so equality, size limits, compression and
+ * callbacks behave as in `useUndoRedo`.
+ */
+export const undoable = <T, A>(
+  reducer: (state: T | undefined, action: A) => T,
+  options: UndoableOptions<T, A> = {}
+): ((
+  state: UndoableState<T> | undefined,
+  action: A | UndoRedoAction
+) => UndoableState<T>) => {
+  let store: UndoRedoStore<T> | null = null;
+  let lastState: UndoableState<T> | null = null;
+
+  return (state, action) => {
+    if (!state || !store) {
+      const initial = state ? state.present : reducer(undefined, action as A);
+
+      store = new UndoRedoStore(initial, toStoreOptions(options));
+
+      if (!state) {
+        lastState = { ...store.getSnapshot(), batchDepth: 0, batchStart: null };
+
+        return lastState;
+      }
+    }
+
+    // The previous result is still loaded unless the state came from elsewhere
+    if (state !== lastState) {
+      store.load(state);
+    }
+
+    const base = store.getSnapshot();
+    let { batchDepth, batchStart } = state;
+
+    if (!isUndoRedoAction(action)) {
+      dispatchToStore(store, reducer, action, options.filter);
+    } else if (action.type === UndoRedoActionTypes.BATCH_START) {
+      if (batchDepth === 0) {
+        batchStart = state.present;
+        store.load({ ...base, isBatching: true });
+      }
+
+      batchDepth += 1;
+    } else if (action.type === UndoRedoActionTypes.BATCH_END) {
+      if (batchDepth === 0) return state;
+
+      batchDepth -= 1;
+
+      if (batchDepth === 0) {
+        // Records the whole batch as one `set` from where it started
+        store.load({ ...base, present: batchStart as T, isBatching: false });
+        store.set(() => base.present, action.options);
+        batchStart = null;
+      }
+    } else {
+      dispatchToStore(store, reducer, action, options.filter);
+
+      if (action.type === UndoRedoActionTypes.CLEAR_HISTORY) {
+        batchDepth = 0;
+        batchStart = null;
+      }
+    }
+
+    const snapshot = store.getSnapshot();
+
+    if (
+      snapshot === base &&
+      batchDepth === state.batchDepth &&
+      batchStart === state.batchStart
+    ) {
+      return state;
+    }
+
+    lastState = { ...snapshot, batchDepth, batchStart };
+
+    return lastState;
+  };
+};
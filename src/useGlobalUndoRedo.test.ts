@@ -0,0 +1,88 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import { ReactNode, createElement } from 'react';
+import { UndoRedoCoordinator } from './UndoRedoCoordinator';
+import { UndoRedoProvider } from './UndoRedoProvider';
+import { useGlobalUndoRedo } from './useGlobalUndoRedo';
+import { useUndoRedo } from './useUndoRedo';
+
+const wrapper = ({ children }: { children?: ReactNode }) =>
+  createElement(UndoRedoProvider, null, children);
+
+describe('useGlobalUndoRedo', () => {
+  it('should undo the latest change across instances', () => {
+    const { result } = renderHook(
+      () => ({
+        title: useUndoRedo<string>(''),
+        count: useUndoRedo<number>(0),
+        global: useGlobalUndoRedo(),
+      }),
+      { wrapper }
+    );
+
+    expect(result.current.global.canUndo).toBe(false);
+
+    act(() => {
+      result.current.title.set('Hello');
+    });
+    act(() => {
+      result.current.count.set(1);
+    });
+
+    expect(result.current.global.canUndo).toBe(true);
+
+    act(() => {
+      result.current.global.undo();
+    });
+
+    expect(result.current.count.state).toBe(0);
+    expect(result.current.count.canRedo).toBe(true);
+    expect(result.current.title.state).toBe('Hello');
+    expect(result.current.title.canUndo).toBe(true);
+
+    act(() => {
+      result.current.global.undo();
+    });
+
+    expect(result.current.title.state).toBe('');
+    expect(result.current.global.canUndo).toBe(false);
+
+    act(() => {
+      result.current.global.redo();
+    });
+
+    expect(result.current.title.state).toBe('Hello');
+    expect(result.current.global.canRedo).toBe(true);
+  });
+
+  it('should forget instances that unmount', () => {
+    const coordinator = new UndoRedoCoordinator();
+    const sharedWrapper = ({ children }: { children?: ReactNode }) =>
+      createElement(UndoRedoProvider, { coordinator }, children);
+    const { result } = renderHook(() => useGlobalUndoRedo(), {
+      wrapper: sharedWrapper,
+    });
+    const panel = renderHook(() => useUndoRedo<number>(0), {
+      wrapper: sharedWrapper,
+    });
+
+    act(() => {
+      panel.result.current.set(1);
+    });
+
+    expect(result.current.canUndo).toBe(true);
+
+    act(() => {
+      panel.unmount();
+    });
+
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it('should throw outside of UndoRedoProvider', () => {
+    const { result } = renderHook(() => useGlobalUndoRedo());
+
+    expect(result.error).toEqual(
+      new Error('useGlobalUndoRedo must be used within UndoRedoProvider')
+    );
+  });
+});
@@ -0,0 +1,28 @@
+import { useContext, useMemo, useSyncExternalStore } from 'react';
+import { UndoRedoContext } from './UndoRedoProvider';
+import { GlobalUndoRedoResult } from './types';
+
+/** App-wide undo/redo over all instances below the nearest `UndoRedoProvider`. */
+export const useGlobalUndoRedo = (): GlobalUndoRedoResult => {
+  const coordinator = useContext(UndoRedoContext);
+
+  if (!coordinator) {
+    throw new Error('useGlobalUndoRedo must be used within UndoRedoProvider');
+  }
+
+  const state = useSyncExternalStore(
+    coordinator.subscribe,
+    coordinator.getSnapshot,
+    coordinator.getSnapshot
+  );
+
+  return useMemo(
+    () => ({
+      undo: coordinator.undo,
+      redo: coordinator.redo,
+      canUndo: state.past.length > 0,
+      canRedo: state.future.length > 0,
+    }),
+    [state, coordinator]
+  );
+};
@@ -1,5 +1,7 @@
+import { StrictMode } from 'react';
 import { renderHook, act } from '@testing-library/react-hooks';
 import { useUndoRedo } from './useUndoRedo';
+import { getDevtoolsHook } from './devtoolsHook';
 
 global.structuredClone = jest.fn((val) => JSON.parse(JSON.stringify(val)));
 
@@ -569,4 +571,763 @@ describe('useUndoRedo', () => {
       expect(result.current.canUndo).toBe(true);
     });
   });
+
+  it('should return full states from history with patch storage', () => {
+    const { result } = renderHook(() =>
+      useUndoRedo({ name: 'John', age: 25 }, { historyStorage: 'patch' })
+    );
+
+    act(() => {
+      result.current.set({ name: 'John', age: 26 });
+      result.current.set({ name: 'Jane', age: 26 });
+    });
+
+    expect(result.current.history.past).toEqual([
+      { name: 'John', age: 25 },
+      { name: 'John', age: 26 },
+    ]);
+
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(result.current.state).toEqual({ name: 'John', age: 26 });
+    expect(result.current.history.future[0]).toEqual({
+      name: 'Jane',
+      age: 26,
+    });
+  });
+
+  describe('time travel', () => {
+    it('should undo and redo several steps in one transition', () => {
+      const onUndo = jest.fn();
+      const onRedo = jest.fn();
+      let renders = 0;
+      const { result } = renderHook(() => {
+        renders += 1;
+
+        return useUndoRedo<string>('initial', { onUndo, onRedo });
+      });
+
+      act(() => {
+        result.current.set('state 1');
+        result.current.set('state 2');
+        result.current.set('state 3');
+      });
+
+      const rendersBeforeUndo = renders;
+
+      act(() => {
+        result.current.undo(3);
+      });
+
+      expect(renders).toBe(rendersBeforeUndo + 1);
+      expect(result.current.state).toBe('initial');
+      expect(result.current.history.future).toEqual([
+        'state 1',
+        'state 2',
+        'state 3',
+      ]);
+      expect(onUndo).toHaveBeenCalledTimes(1);
+      expect(onUndo).toHaveBeenCalledWith('state 3', 'initial');
+
+      act(() => {
+        result.current.redo(2);
+      });
+
+      expect(result.current.state).toBe('state 2');
+      expect(result.current.history.past).toEqual(['initial', 'state 1']);
+      expect(result.current.history.future).toEqual(['state 3']);
+      expect(onRedo).toHaveBeenCalledTimes(1);
+      expect(onRedo).toHaveBeenCalledWith('initial', 'state 2');
+    });
+
+    it('should clamp steps to the available history', () => {
+      const { result } = renderHook(() => useUndoRedo('initial'));
+
+      act(() => {
+        result.current.set('state 1');
+        result.current.undo(10);
+      });
+
+      expect(result.current.state).toBe('initial');
+
+      act(() => {
+        result.current.redo(10);
+      });
+
+      expect(result.current.state).toBe('state 1');
+      expect(result.current.canRedo).toBe(false);
+    });
+
+    it('should jump to a timeline index with goTo', () => {
+      const { result } = renderHook(() =>
+        useUndoRedo('initial', { compressHistory: true })
+      );
+
+      act(() => {
+        result.current.set('state 1');
+        result.current.set('state 2');
+        result.current.set('state 3');
+      });
+
+      act(() => {
+        result.current.goTo(1);
+      });
+
+      expect(result.current.state).toBe('state 1');
+      expect(result.current.history.past).toEqual(['initial']);
+      expect(result.current.history.future).toEqual(['state 2', 'state 3']);
+
+      act(() => {
+        result.current.goTo(3);
+      });
+
+      expect(result.current.state).toBe('state 3');
+      expect(result.current.history.past).toEqual([
+        'initial',
+        'state 1',
+        'state 2',
+      ]);
+    });
+
+    it('should jump across patch history', () => {
+      const { result } = renderHook(() =>
+        useUndoRedo({ count: 0 }, { historyStorage: 'patch' })
+      );
+
+      act(() => {
+        result.current.set({ count: 1 });
+        result.current.set({ count: 2 });
+        result.current.set({ count: 3 });
+      });
+
+      act(() => {
+        result.current.goTo(0);
+      });
+
+      expect(result.current.state).toEqual({ count: 0 });
+
+      act(() => {
+        result.current.goTo(2);
+      });
+
+      expect(result.current.state).toEqual({ count: 2 });
+      expect(result.current.history.past).toEqual([{ count: 0 }, { count: 1 }]);
+      expect(result.current.history.future).toEqual([{ count: 3 }]);
+    });
+  });
+
+  it('should keep undone changes as a branch when branching is enabled', () => {
+    const { result } = renderHook(() =>
+      useUndoRedo<string>('initial', { branching: true })
+    );
+
+    act(() => {
+      result.current.set('state 1');
+      result.current.set('state 2');
+    });
+
+    act(() => {
+      result.current.undo();
+      result.current.set('other');
+    });
+
+    expect(result.current.canRedo).toBe(false);
+    expect(result.current.getBranches(1).map((node) => node.id)).toEqual([
+      2, 3,
+    ]);
+
+    act(() => {
+      result.current.switchBranch(2);
+    });
+
+    expect(result.current.state).toBe('state 2');
+    expect(result.current.history.past).toEqual(['initial', 'state 1']);
+  });
+
+  describe('labeled entries', () => {
+    it('should attach label, meta and timestamp to entries', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+      const { result } = renderHook(() =>
+        useUndoRedo<string>('initial', { compressHistory: true })
+      );
+
+      act(() => {
+        result.current.set('renamed', { label: 'Rename layer' });
+        result.current.set('deleted', {
+          label: 'Delete 3 items',
+          meta: { count: 3 },
+          timestamp: 2000,
+        });
+      });
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(
+        result.current.history.entries.map(({ state, label, timestamp }) => ({
+          state,
+          label,
+          timestamp,
+        }))
+      ).toEqual([
+        { state: 'initial', label: undefined, timestamp: 1000 },
+        { state: 'renamed', label: 'Rename layer', timestamp: 1000 },
+        { state: 'deleted', label: 'Delete 3 items', timestamp: 2000 },
+      ]);
+      expect(result.current.history.entries[2].meta).toEqual({ count: 3 });
+      expect(result.current.history.past).toEqual(['initial']);
+
+      now.mockRestore();
+    });
+
+    it('should label batches with endBatch or the last labeled set', () => {
+      const { result } = renderHook(() => useUndoRedo({ count: 0 }));
+
+      act(() => {
+        result.current.startBatch();
+        result.current.set({ count: 1 }, { label: 'Increment' });
+        result.current.set({ count: 2 });
+        result.current.endBatch();
+      });
+
+      act(() => {
+        result.current.withBatch(
+          () => {
+            result.current.set({ count: 3 }, { label: 'Ignored' });
+          },
+          { label: 'Add one' }
+        );
+      });
+
+      expect(result.current.history.entries.map((e) => e.label)).toEqual([
+        undefined,
+        'Increment',
+        'Add one',
+      ]);
+    });
+
+    it('should keep labels aligned with patch storage and maxHistorySize', () => {
+      const { result } = renderHook(() =>
+        useUndoRedo(
+          { count: 0 },
+          { historyStorage: 'patch', maxHistorySize: 2 }
+        )
+      );
+
+      act(() => {
+        result.current.set({ count: 1 }, { label: 'one' });
+        result.current.set({ count: 2 }, { label: 'two' });
+        result.current.set({ count: 3 }, { label: 'three' });
+        result.current.undo(2);
+      });
+
+      expect(
+        result.current.history.entries.map(({ state, label }) => [
+          state.count,
+          label,
+        ])
+      ).toEqual([
+        [1, 'one'],
+        [2, 'two'],
+        [3, 'three'],
+      ]);
+    });
+  });
+
+  describe('coalesce', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should merge sets made within the window into one entry', () => {
+      const { result } = renderHook(() =>
+        useUndoRedo<string>('', { coalesce: 500 })
+      );
+
+      act(() => {
+        result.current.set('h');
+      });
+      jest.advanceTimersByTime(200);
+      act(() => {
+        result.current.set('he');
+      });
+      jest.advanceTimersByTime(400);
+      act(() => {
+        result.current.set('hel');
+      });
+
+      expect(result.current.state).toBe('hel');
+      expect(result.current.history.past).toEqual(['']);
+
+      jest.advanceTimersByTime(501);
+      act(() => {
+        result.current.set('hello');
+      });
+
+      expect(result.current.history.past).toEqual(['', 'hel']);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state).toBe('hel');
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state).toBe('');
+    });
+
+    it('should start a new entry after undo', () => {
+      const { result } = renderHook(() =>
+        useUndoRedo<string>('', { coalesce: 500 })
+      );
+
+      act(() => {
+        result.current.set('a');
+      });
+      jest.advanceTimersByTime(600);
+      act(() => {
+        result.current.set('ab');
+        result.current.undo();
+        result.current.set('ac');
+      });
+
+      expect(result.current.history.past).toEqual(['', 'a']);
+      expect(result.current.state).toBe('ac');
+    });
+
+    it('should use shouldMerge with the last entry info', () => {
+      const shouldMerge = jest.fn(
+        (prev: string, next: string, lastEntryMeta: { label?: string }) =>
+          lastEntryMeta.label === 'Typing' && !prev.endsWith(' ')
+      );
+      const { result } = renderHook(() =>
+        useUndoRedo<string>('', { coalesce: { shouldMerge } })
+      );
+
+      act(() => {
+        result.current.set('a', { label: 'Typing' });
+        result.current.set('ab');
+        result.current.set('ab ');
+        result.current.set('ab c');
+      });
+
+      expect(shouldMerge).toHaveBeenCalledWith(
+        'a',
+        'ab',
+        expect.objectContaining({ label: 'Typing' })
+      );
+      expect(result.current.history.past).toEqual(['', 'ab ']);
+      expect(
+        result.current.history.entries.map(({ state, label }) => [state, label])
+      ).toEqual([
+        ['', undefined],
+        ['ab ', 'Typing'],
+        ['ab c', undefined],
+      ]);
+    });
+
+    it('should require both the window and shouldMerge when given', () => {
+      const { result } = renderHook(() =>
+        useUndoRedo<number>(0, {
+          coalesce: { window: 100, shouldMerge: (prev, next) => next > prev },
+        })
+      );
+
+      act(() => {
+        result.current.set(1);
+        result.current.set(2);
+        result.current.set(1);
+      });
+      jest.advanceTimersByTime(150);
+      act(() => {
+        result.current.set(5);
+      });
+
+      expect(result.current.history.past).toEqual([0, 2, 1]);
+    });
+
+    it('should rebuild the merged patch entry', () => {
+      const onSet = jest.fn();
+      const { result } = renderHook(() =>
+        useUndoRedo(
+          { text: '', size: 1 },
+          { coalesce: 1000, historyStorage: 'patch', onSet }
+        )
+      );
+
+      act(() => {
+        result.current.set({ text: 'a', size: 1 });
+        result.current.set({ text: 'ab', size: 2 });
+      });
+
+      expect(onSet).toHaveBeenCalledTimes(2);
+      expect(result.current.history.past).toEqual([{ text: '', size: 1 }]);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state).toEqual({ text: '', size: 1 });
+
+      act(() => {
+        result.current.redo();
+      });
+
+      expect(result.current.state).toEqual({ text: 'ab', size: 2 });
+    });
+  });
+
+  describe('functional updates', () => {
+    it('should apply updaters to the latest present', () => {
+      const { result } = renderHook(() => useUndoRedo({ x: 0, y: 0 }));
+
+      act(() => {
+        result.current.set((prev) => ({ ...prev, x: 1 }));
+        result.current.set((prev) => ({ ...prev, y: 2 }));
+      });
+
+      expect(result.current.state).toEqual({ x: 1, y: 2 });
+      expect(result.current.history.past).toEqual([
+        { x: 0, y: 0 },
+        { x: 1, y: 0 },
+      ]);
+    });
+
+    it('should group updaters inside a batch', () => {
+      const onSet = jest.fn();
+      const { result } = renderHook(() => useUndoRedo({ count: 0 }, { onSet }));
+
+      act(() => {
+        result.current.withBatch(() => {
+          result.current.set((prev) => ({ count: prev.count + 1 }));
+          result.current.set((prev) => ({ count: prev.count + 1 }));
+        });
+      });
+
+      expect(result.current.state).toEqual({ count: 2 });
+      expect(result.current.history.past).toEqual([{ count: 0 }]);
+      expect(onSet).toHaveBeenCalledTimes(1);
+      expect(onSet).toHaveBeenCalledWith({ count: 0 }, { count: 2 });
+    });
+
+    it('should skip updaters returning an equal value', () => {
+      const onSet = jest.fn();
+      const { result } = renderHook(() =>
+        useUndoRedo(
+          { count: 0, updatedAt: 1 },
+          { onSet, equalFn: (a, b) => a.count === b.count }
+        )
+      );
+
+      act(() => {
+        result.current.set((prev) => ({ ...prev, updatedAt: 2 }));
+      });
+
+      expect(result.current.canUndo).toBe(false);
+      expect(onSet).not.toHaveBeenCalled();
+
+      act(() => {
+        result.current.set((prev) => ({ ...prev, count: 1 }));
+      });
+
+      expect(onSet).toHaveBeenCalledWith(
+        { count: 0, updatedAt: 1 },
+        { count: 1, updatedAt: 1 }
+      );
+    });
+  });
+
+  describe('save points', () => {
+    it('should track the saved position through undo and redo', () => {
+      const { result } = renderHook(() => useUndoRedo({ name: '' }));
+
+      expect(result.current.isDirty).toBe(false);
+
+      act(() => {
+        result.current.set({ name: 'A' });
+      });
+
+      expect(result.current.isDirty).toBe(true);
+      expect(result.current.canUndoToSaved).toBe(true);
+
+      act(() => {
+        result.current.markSaved();
+      });
+
+      expect(result.current.isDirty).toBe(false);
+      expect(result.current.canUndoToSaved).toBe(false);
+
+      act(() => {
+        result.current.set({ name: 'AB' });
+      });
+
+      expect(result.current.isDirty).toBe(true);
+      expect(result.current.canUndoToSaved).toBe(true);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.isDirty).toBe(false);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.isDirty).toBe(true);
+      expect(result.current.canUndoToSaved).toBe(false);
+    });
+
+    it('should compare other entries with equalFn', () => {
+      const { result } = renderHook(() => useUndoRedo<string>('draft'));
+
+      act(() => {
+        result.current.markSaved();
+        result.current.set('edited');
+        result.current.set('draft');
+      });
+
+      expect(result.current.isDirty).toBe(false);
+    });
+
+    it('should revert to the saved entry from past or future', () => {
+      const { result } = renderHook(() => useUndoRedo<number>(0));
+
+      act(() => {
+        result.current.set(1);
+        result.current.markSaved();
+        result.current.set(2);
+        result.current.set(3);
+        result.current.revertToSaved();
+      });
+
+      expect(result.current.state).toBe(1);
+      expect(result.current.history.future).toEqual([2, 3]);
+
+      act(() => {
+        result.current.undo();
+        result.current.revertToSaved();
+      });
+
+      expect(result.current.state).toBe(1);
+      expect(result.current.history.past).toEqual([0]);
+    });
+
+    it('should revert after the saved entry was trimmed', () => {
+      const { result } = renderHook(() =>
+        useUndoRedo({ count: 0 }, { maxHistorySize: 1 })
+      );
+
+      act(() => {
+        result.current.set({ count: 1 });
+        result.current.markSaved();
+        result.current.set({ count: 2 });
+        result.current.set({ count: 3 });
+      });
+
+      expect(result.current.canUndoToSaved).toBe(false);
+      expect(result.current.isDirty).toBe(true);
+
+      act(() => {
+        result.current.revertToSaved({ label: 'Revert' });
+      });
+
+      expect(result.current.state).toEqual({ count: 1 });
+      expect(result.current.isDirty).toBe(false);
+      expect(result.current.history.past).toEqual([{ count: 3 }]);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.isDirty).toBe(true);
+    });
+
+    it('should treat the value passed to reset as saved', () => {
+      const { result } = renderHook(() => useUndoRedo<string>('a'));
+
+      act(() => {
+        result.current.set('b');
+        result.current.reset('loaded');
+      });
+
+      expect(result.current.isDirty).toBe(false);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should commit an async transaction as one entry', async () => {
+      const { result } = renderHook(() => useUndoRedo({ count: 0 }));
+
+      await act(async () => {
+        await result.current.withTransaction(async (state) => {
+          result.current.set({ count: state.count + 1 });
+          await Promise.resolve();
+          result.current.set((prev) => ({ count: prev.count + 1 }));
+        });
+      });
+
+      expect(result.current.state).toEqual({ count: 2 });
+      expect(result.current.history.past).toEqual([{ count: 0 }]);
+
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.state).toEqual({ count: 0 });
+    });
+  });
+
+  describe('ignored changes', () => {
+    interface Doc {
+      text: string;
+      selection: number;
+    }
+
+    const textChanged = (prev: Doc, next: Doc) => prev.text !== next.text;
+
+    it('should skip history for changes rejected by filter', () => {
+      const { result } = renderHook(() =>
+        useUndoRedo<Doc>({ text: '', selection: 0 }, { filter: textChanged })
+      );
+
+      act(() => {
+        result.current.set({ text: 'a', selection: 0 });
+        result.current.set({ text: 'a', selection: 1 });
+      });
+
+      expect(result.current.state).toEqual({ text: 'a', selection: 1 });
+      expect(result.current.history.past).toEqual([{ text: '', selection: 0 }]);
+
+      act(() => {
+        result.current.set((prev) => ({ ...prev, selection: 2 }), {
+          skipHistory: false,
+        });
+      });
+
+      expect(result.current.history.past).toHaveLength(2);
+    });
+
+    it('should restore ignored fields with the entry by default', () => {
+      const { result } = renderHook(() =>
+        useUndoRedo<Doc>({ text: '', selection: 0 }, { filter: textChanged })
+      );
+
+      act(() => {
+        result.current.set({ text: 'a', selection: 1 });
+        result.current.set({ text: 'a', selection: 5 });
+        result.current.undo();
+      });
+
+      expect(result.current.state).toEqual({ text: '', selection: 0 });
+    });
+
+    it('should carry ignored fields forward with mergeIgnored', () => {
+      const { result } = renderHook(() =>
+        useUndoRedo<Doc>(
+          { text: '', selection: 0 },
+          {
+            filter: textChanged,
+            mergeIgnored: (restored, current) => ({
+              ...restored,
+              selection: current.selection,
+            }),
+          }
+        )
+      );
+
+      act(() => {
+        result.current.set({ text: 'a', selection: 1 });
+        result.current.set({ text: 'a', selection: 5 });
+        result.current.undo();
+      });
+
+      expect(result.current.state).toEqual({ text: '', selection: 5 });
+
+      act(() => {
+        result.current.set((prev) => ({ ...prev, selection: 3 }));
+        result.current.redo();
+      });
+
+      expect(result.current.state).toEqual({ text: 'a', selection: 3 });
+    });
+  });
+
+  describe('devtools', () => {
+    it('should register the instance by name while mounted', () => {
+      const { result, unmount } = renderHook(() =>
+        useUndoRedo('value', { devtools: 'form' })
+      );
+
+      act(() => {
+        getDevtoolsHook().stores.form.set('changed');
+      });
+
+      expect(result.current.state).toBe('changed');
+
+      unmount();
+
+      expect(getDevtoolsHook().stores.form).toBeUndefined();
+    });
+  });
+
+  describe('checkpoints', () => {
+    it('should re-render with the checkpoint list and restore a checkpoint', () => {
+      const { result } = renderHook(() => useUndoRedo('draft'));
+
+      act(() => {
+        result.current.createCheckpoint('draft');
+        result.current.set('final');
+      });
+
+      expect(result.current.listCheckpoints()).toEqual([
+        expect.objectContaining({ name: 'draft' }),
+      ]);
+
+      act(() => {
+        result.current.restoreCheckpoint('draft');
+      });
+
+      expect(result.current.state).toBe('draft');
+      expect(result.current.history.past).toEqual(['draft', 'final']);
+    });
+  });
+
+  describe('events', () => {
+    it('should dispatch each event once under StrictMode', () => {
+      const listener = jest.fn();
+      const onSet = jest.fn();
+      const { result } = renderHook(
+        () => useUndoRedo({ count: 0 }, { onSet }),
+        { wrapper: StrictMode }
+      );
+
+      let unsubscribe: () => void = () => undefined;
+
+      act(() => {
+        unsubscribe = result.current.subscribe(listener);
+        result.current.set({ count: 1 });
+        result.current.undo();
+      });
+
+      expect(onSet).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls.map(([event]) => event.type)).toEqual([
+        'set',
+        'undo',
+      ]);
+
+      unsubscribe();
+    });
+  });
 });
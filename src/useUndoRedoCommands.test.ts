@@ -0,0 +1,101 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import { Command } from './types';
+import { useUndoRedoCommands } from './useUndoRedoCommands';
+
+const createCounter = () => {
+  const counter = { value: 0 };
+  const add = (amount: number): Command => ({
+    do: () => {
+      counter.value += amount;
+    },
+    undo: () => {
+      counter.value -= amount;
+    },
+    label: `Add ${amount}`,
+  });
+
+  return { counter, add };
+};
+
+describe('useUndoRedoCommands', () => {
+  it('should update canUndo, canRedo and history', () => {
+    const { counter, add } = createCounter();
+    const { result } = renderHook(() => useUndoRedoCommands());
+
+    expect(result.current.canUndo).toBe(false);
+
+    act(() => {
+      result.current.execute(add(1));
+      result.current.execute(add(2));
+    });
+
+    expect(counter.value).toBe(3);
+    expect(result.current.canUndo).toBe(true);
+    expect(result.current.history.past.map((c) => c.label)).toEqual([
+      'Add 1',
+      'Add 2',
+    ]);
+
+    act(() => {
+      result.current.undo();
+    });
+
+    expect(counter.value).toBe(1);
+    expect(result.current.canRedo).toBe(true);
+    expect(result.current.history.future.map((c) => c.label)).toEqual([
+      'Add 2',
+    ]);
+
+    act(() => {
+      result.current.clear();
+    });
+
+    expect(counter.value).toBe(1);
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it('should call callbacks once per transition', () => {
+    const { add } = createCounter();
+    const onUndo = jest.fn();
+    const onRedo = jest.fn();
+    const { result } = renderHook(() =>
+      useUndoRedoCommands({ onUndo, onRedo })
+    );
+    const first = add(1);
+    const second = add(2);
+
+    act(() => {
+      result.current.execute(first);
+      result.current.execute(second);
+      result.current.undo(2);
+    });
+
+    expect(onUndo).toHaveBeenCalledTimes(1);
+    expect(onUndo).toHaveBeenCalledWith([second, first]);
+
+    act(() => {
+      result.current.redo(2);
+    });
+
+    expect(onRedo).toHaveBeenCalledWith([first, second]);
+  });
+
+  it('should label batches passed to endBatch', () => {
+    const { counter, add } = createCounter();
+    const { result } = renderHook(() => useUndoRedoCommands());
+
+    act(() => {
+      result.current.startBatch();
+      result.current.execute(add(1));
+      result.current.execute(add(1));
+      result.current.undo();
+      result.current.endBatch({ label: 'Add two' });
+    });
+
+    expect(counter.value).toBe(2);
+    expect(result.current.history.past.map((c) => c.label)).toEqual([
+      'Add two',
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+import { useMemo, useRef, useSyncExternalStore } from 'react';
+import { CommandStore } from './CommandStore';
+import { CommandOptions, UndoRedoCommandsResult } from './types';
+
+export const useUndoRedoCommands = (
+  options: CommandOptions = {}
+): UndoRedoCommandsResult => {
+  const storeRef = useRef<CommandStore | null>(null);
+
+  if (!storeRef.current) {
+    storeRef.current = new CommandStore(options);
+  }
+
+  const store = storeRef.current;
+
+  store.setOptions(options);
+
+  const state = useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    store.getSnapshot
+  );
+
+  return useMemo(
+    () => ({
+      execute: store.execute,
+      undo: store.undo,
+      redo: store.redo,
+      clear: store.clear,
+      startBatch: store.startBatch,
+      endBatch: store.endBatch,
+      withBatch: store.withBatch,
+      canUndo: state.past.length > 0,
+      canRedo: state.future.length > 0,
+      history: { past: state.past, future: state.future },
+    }),
+    [state, store]
+  );
+};
@@ -0,0 +1,97 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import { undoRedoActions } from './undoable';
+import { useUndoRedoReducer } from './useUndoRedoReducer';
+
+type CounterAction = { type: 'increment' } | { type: 'hover'; id: string };
+
+interface Counter {
+  count: number;
+  hovered: string;
+}
+
+const counter = (state: Counter, action: CounterAction): Counter => {
+  switch (action.type) {
+    case 'increment':
+      return { ...state, count: state.count + 1 };
+    case 'hover':
+      return { ...state, hovered: action.id };
+    default:
+      return state;
+  }
+};
+
+describe('useUndoRedoReducer', () => {
+  it('should record dispatched actions', () => {
+    const { result } = renderHook(() =>
+      useUndoRedoReducer(counter, { count: 0, hovered: '' })
+    );
+
+    act(() => {
+      result.current.dispatch({ type: 'increment' });
+      result.current.dispatch({ type: 'increment' });
+    });
+
+    expect(result.current.state.count).toBe(2);
+    expect(result.current.history.past).toHaveLength(2);
+
+    act(() => {
+      result.current.dispatch(undoRedoActions.undo());
+    });
+
+    expect(result.current.state.count).toBe(1);
+
+    act(() => {
+      result.current.redo();
+    });
+
+    expect(result.current.state.count).toBe(2);
+  });
+
+  it('should skip history for filtered actions', () => {
+    const { result } = renderHook(() =>
+      useUndoRedoReducer(
+        counter,
+        { count: 0, hovered: '' },
+        { filter: (action) => action.type !== 'hover' }
+      )
+    );
+
+    act(() => {
+      result.current.dispatch({ type: 'increment' });
+      result.current.dispatch({ type: 'hover', id: 'a' });
+    });
+
+    expect(result.current.state).toEqual({ count: 1, hovered: 'a' });
+    expect(result.current.history.past).toHaveLength(1);
+  });
+
+  it('should batch actions into one entry', () => {
+    const { result } = renderHook(() =>
+      useUndoRedoReducer(counter, { count: 0, hovered: '' })
+    );
+
+    act(() => {
+      result.current.dispatch(undoRedoActions.batchStart());
+      result.current.dispatch({ type: 'increment' });
+      result.current.dispatch({ type: 'increment' });
+      result.current.dispatch(undoRedoActions.batchEnd({ label: 'twice' }));
+    });
+
+    expect(result.current.state.count).toBe(2);
+    expect(result.current.history.past).toHaveLength(1);
+    expect(result.current.history.entries[1].label).toBe('twice');
+  });
+
+  it('should keep dispatch stable across renders', () => {
+    const { result } = renderHook(() =>
+      useUndoRedoReducer(counter, { count: 0, hovered: '' })
+    );
+    const { dispatch } = result.current;
+
+    act(() => {
+      dispatch({ type: 'increment' });
+    });
+
+    expect(result.current.dispatch).toBe(dispatch);
+  });
+});
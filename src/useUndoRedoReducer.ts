@@ -0,0 +1,50 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { UndoRedoStore } from './UndoRedoStore';
+import {
+  Reducer,
+  UndoRedoAction,
+  UndoableOptions,
+  dispatchToStore,
+  toStoreOptions,
+} from './undoable';
+import { UndoRedoReducerResult } from './types';
+import { useStoreResult } from './useUndoRedo';
+
+/**
+ * `useReducer` with undo history. Actions go through `reducer` and are
+ * recorded like `set`; `undoRedoActions` can be dispatched as well. The
+ * result also has everything `useUndoRedo` returns.
+ */
+export const useUndoRedoReducer = <T, A>(
+  reducer: Reducer<T, A>,
+  initialState: T,
+  options: UndoableOptions<T, A> = {}
+): UndoRedoReducerResult<T, A> => {
+  const storeRef = useRef<UndoRedoStore<T> | null>(null);
+
+  if (!storeRef.current) {
+    storeRef.current = new UndoRedoStore(initialState, toStoreOptions(options));
+  }
+
+  const store = storeRef.current;
+
+  store.setOptions(toStoreOptions(options));
+
+  const latest = useRef({ reducer, options });
+
+  latest.current = { reducer, options };
+
+  const result = useStoreResult(store, options.devtools);
+  const dispatch = useCallback(
+    (action: A | UndoRedoAction) =>
+      dispatchToStore(
+        store,
+        latest.current.reducer,
+        action,
+        latest.current.options.filter
+      ),
+    [store]
+  );
+
+  return useMemo(() => ({ ...result, dispatch }), [result, dispatch]);
+};
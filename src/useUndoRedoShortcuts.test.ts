@@ -0,0 +1,224 @@
+import { renderHook, act } from '@testing-library/react-hooks';
+import { UndoRedoShortcutsOptions } from './types';
+import { useUndoRedo } from './useUndoRedo';
+import { useUndoRedoShortcuts } from './useUndoRedoShortcuts';
+
+const press = (
+  target: EventTarget,
+  init: KeyboardEventInit & { key: string }
+): KeyboardEvent => {
+  const event = new KeyboardEvent('keydown', {
+    bubbles: true,
+    cancelable: true,
+    ...init,
+  });
+
+  act(() => {
+    target.dispatchEvent(event);
+  });
+
+  return event;
+};
+
+const setPlatform = (platform: string) =>
+  jest.spyOn(navigator, 'platform', 'get').mockReturnValue(platform);
+
+const renderEditor = (options?: UndoRedoShortcutsOptions) =>
+  renderHook(() => {
+    const result = useUndoRedo<number>(0);
+
+    useUndoRedoShortcuts(result, options);
+
+    return result;
+  });
+
+describe('useUndoRedoShortcuts', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  it('should handle Ctrl shortcuts outside macOS', () => {
+    setPlatform('Win32');
+
+    const { result } = renderEditor();
+
+    act(() => {
+      result.current.set(1);
+      result.current.set(2);
+    });
+
+    const undoEvent = press(window, { key: 'z', ctrlKey: true });
+
+    expect(result.current.state).toBe(1);
+    expect(undoEvent.defaultPrevented).toBe(true);
+
+    press(window, { key: 'z', metaKey: true });
+
+    expect(result.current.state).toBe(1);
+
+    press(window, { key: 'z', ctrlKey: true });
+    press(window, { key: 'Z', ctrlKey: true, shiftKey: true });
+
+    expect(result.current.state).toBe(1);
+
+    press(window, { key: 'y', ctrlKey: true });
+
+    expect(result.current.state).toBe(2);
+  });
+
+  it('should use Cmd on macOS', () => {
+    setPlatform('MacIntel');
+
+    const { result } = renderEditor();
+
+    act(() => {
+      result.current.set(1);
+    });
+
+    press(window, { key: 'z', ctrlKey: true });
+
+    expect(result.current.state).toBe(1);
+
+    press(window, { key: 'z', metaKey: true });
+
+    expect(result.current.state).toBe(0);
+
+    press(window, { key: 'y', ctrlKey: true });
+
+    expect(result.current.state).toBe(0);
+
+    press(window, { key: 'z', metaKey: true, shiftKey: true });
+
+    expect(result.current.state).toBe(1);
+  });
+
+  it('should leave text inputs to the browser unless disabled', () => {
+    setPlatform('Linux x86_64');
+
+    const textarea = document.createElement('textarea');
+    const checkbox = document.createElement('input');
+    const editable = document.createElement('div');
+
+    checkbox.type = 'checkbox';
+    editable.setAttribute('contenteditable', 'true');
+    editable.appendChild(document.createElement('span'));
+    document.body.append(textarea, checkbox, editable);
+
+    const { result, unmount } = renderEditor();
+
+    act(() => {
+      result.current.set(1);
+      result.current.set(2);
+    });
+
+    const event = press(textarea, { key: 'z', ctrlKey: true });
+
+    press(editable.firstChild!, { key: 'z', ctrlKey: true });
+
+    expect(event.defaultPrevented).toBe(false);
+    expect(result.current.state).toBe(2);
+
+    press(checkbox, { key: 'z', ctrlKey: true });
+
+    expect(result.current.state).toBe(1);
+
+    unmount();
+
+    const { result: other } = renderEditor({ ignoreInputs: false });
+
+    act(() => {
+      other.current.set(1);
+    });
+
+    press(textarea, { key: 'z', ctrlKey: true });
+
+    expect(other.current.state).toBe(0);
+  });
+
+  it('should bind to a target with a custom keymap and clean up', () => {
+    setPlatform('Win32');
+
+    const element = document.createElement('div');
+    const ref = { current: element };
+
+    document.body.append(element);
+
+    const { result, unmount } = renderEditor({
+      target: ref,
+      keymap: { undo: ['Alt+Backspace'] },
+    });
+
+    act(() => {
+      result.current.set(1);
+    });
+
+    press(window, { key: 'Backspace', altKey: true });
+
+    expect(result.current.state).toBe(1);
+
+    press(element, { key: 'z', ctrlKey: true });
+
+    expect(result.current.state).toBe(1);
+
+    press(element, { key: 'Backspace', altKey: true });
+
+    expect(result.current.state).toBe(0);
+
+    press(element, { key: 'y', ctrlKey: true });
+
+    expect(result.current.state).toBe(1);
+
+    unmount();
+  });
+
+  it('should remove the listener on unmount', () => {
+    setPlatform('Win32');
+
+    const undo = jest.fn();
+    const redo = jest.fn();
+    const { unmount } = renderHook(() => useUndoRedoShortcuts({ undo, redo }));
+
+    press(window, { key: 'z', ctrlKey: true });
+
+    expect(undo).toHaveBeenCalledTimes(1);
+
+    unmount();
+    press(window, { key: 'z', ctrlKey: true });
+    press(window, { key: 'y', ctrlKey: true });
+
+    expect(undo).toHaveBeenCalledTimes(1);
+    expect(redo).not.toHaveBeenCalled();
+  });
+
+  it('should match letters by code with other keyboard layouts', () => {
+    setPlatform('Win32');
+
+    const { result } = renderEditor();
+
+    act(() => {
+      result.current.set(1);
+    });
+
+    press(window, { key: 'я', code: 'KeyZ', ctrlKey: true });
+
+    expect(result.current.state).toBe(0);
+  });
+
+  it('should match Latin letters by key with QWERTZ layouts', () => {
+    setPlatform('Win32');
+
+    const { result } = renderEditor();
+
+    act(() => {
+      result.current.set(1);
+    });
+    act(() => {
+      result.current.undo();
+    });
+
+    press(window, { key: 'y', code: 'KeyZ', ctrlKey: true });
+
+    expect(result.current.state).toBe(1);
+  });
+});
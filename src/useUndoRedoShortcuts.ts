@@ -0,0 +1,150 @@
+import { useEffect, useRef } from 'react';
+import {
+  ShortcutKeymap,
+  UndoRedoResult,
+  UndoRedoShortcutsOptions,
+} from './types';
+
+type UndoRedoControls = Pick<UndoRedoResult<unknown>, 'undo' | 'redo'>;
+
+const NON_TEXT_INPUTS = [
+  'button',
+  'checkbox',
+  'color',
+  'file',
+  'hidden',
+  'image',
+  'radio',
+  'range',
+  'reset',
+  'submit',
+];
+
+const isMac = (): boolean =>
+  typeof navigator !== 'undefined' &&
+  /Mac|iPhone|iPad/.test(navigator.platform);
+
+const getDefaultKeymap = (mac: boolean): ShortcutKeymap => ({
+  undo: ['Mod+Z'],
+  redo: mac ? ['Mod+Shift+Z'] : ['Mod+Shift+Z', 'Ctrl+Y'],
+});
+
+/** Whether the browser handles undo itself for the event target. */
+const isTextInput = (target: EventTarget | null): boolean => {
+  if (!target || !(target as Element).tagName) return false;
+
+  const element = target as HTMLElement;
+  const tagName = element.tagName.toLowerCase();
+
+  if (tagName === 'textarea' || tagName === 'select') return true;
+
+  if (tagName === 'input') {
+    return NON_TEXT_INPUTS.indexOf((element as HTMLInputElement).type) === -1;
+  }
+
+  const editable = element.closest('[contenteditable]');
+
+  return !!editable && editable.getAttribute('contenteditable') !== 'false';
+};
+
+const resolveTarget = (
+  target: UndoRedoShortcutsOptions['target']
+): EventTarget | null => {
+  if (target === undefined) {
+    return typeof window === 'undefined' ? null : window;
+  }
+
+  return target && 'current' in target ? target.current : target;
+};
+
+const matchesShortcut = (
+  event: KeyboardEvent,
+  shortcut: string,
+  mac: boolean
+): boolean => {
+  const parts = shortcut.split('+').map((part) => part.trim().toLowerCase());
+  const key = parts.pop() || '';
+  const modifiers = { ctrl: false, meta: false, alt: false, shift: false };
+
+  parts.forEach((part) => {
+    if (part === 'mod') {
+      modifiers[mac ? 'meta' : 'ctrl'] = true;
+    } else if (part === 'cmd' || part === 'meta') {
+      modifiers.meta = true;
+    } else if (part === 'ctrl' || part === 'control') {
+      modifiers.ctrl = true;
+    } else if (part === 'alt' || part === 'option') {
+      modifiers.alt = true;
+    } else if (part === 'shift') {
+      modifiers.shift = true;
+    }
+  });
+
+  // `code` keeps letter shortcuts working with non-Latin keyboard layouts;
+  // Latin layouts like QWERTZ or AZERTY are matched by `key` only
+  const keyMatches =
+    event.key.toLowerCase() === key ||
+    (key.length === 1 &&
+      !/^[a-z]$/i.test(event.key) &&
+      event.code === `Key${key.toUpperCase()}`);
+
+  return (
+    keyMatches &&
+    event.ctrlKey === modifiers.ctrl &&
+    event.metaKey === modifiers.meta &&
+    event.altKey === modifiers.alt &&
+    event.shiftKey === modifiers.shift
+  );
+};
+
+/**
+ * Binds undo/redo keyboard shortcuts to the result of `useUndoRedo` (or
+ * `useUndoRedoCommands`). The listener is removed on unmount.
+ */
+export const useUndoRedoShortcuts = (
+  controls: UndoRedoControls,
+  options: UndoRedoShortcutsOptions = {}
+): void => {
+  const latest = useRef({ controls, options });
+
+  latest.current = { controls, options };
+
+  const { target, enabled = true } = options;
+
+  useEffect(() => {
+    const element = resolveTarget(target);
+
+    if (!enabled || !element) return undefined;
+
+    const listener = (event: Event) => {
+      const keyboardEvent = event as KeyboardEvent;
+      const { controls: current, options: currentOptions } = latest.current;
+      const { keymap = {}, ignoreInputs = true } = currentOptions;
+
+      if (keyboardEvent.defaultPrevented || keyboardEvent.isComposing) return;
+
+      if (ignoreInputs && isTextInput(keyboardEvent.target)) return;
+
+      const mac = isMac();
+      const { undo, redo } = { ...getDefaultKeymap(mac), ...keymap };
+      const matches = (shortcuts: string[]) =>
+        shortcuts.some((shortcut) =>
+          matchesShortcut(keyboardEvent, shortcut, mac)
+        );
+
+      if (matches(undo)) {
+        keyboardEvent.preventDefault();
+        current.undo();
+      } else if (matches(redo)) {
+        keyboardEvent.preventDefault();
+        current.redo();
+      }
+    };
+
+    element.addEventListener('keydown', listener);
+
+    return () => {
+      element.removeEventListener('keydown', listener);
+    };
+  }, [target, enabled]);
+};
@@ -0,0 +1,121 @@
+import { structuredCodec } from './codec';
+import { EntryInfo, EntryOptions } from './types';
+
+const hasStructuredClone = typeof structuredClone === 'function';
+
+export const safeStructuredClone = <T>(obj: T): T => {
+  if (hasStructuredClone) {
+    return structuredClone(obj);
+  }
+
+  try {
+    return structuredCodec.decode(structuredCodec.encode(obj) as string) as T;
+  } catch (error) {
+    console.warn('safeStructuredClone fallback failed', error);
+
+    return obj;
+  }
+};
+
+const isFreezable = (value: unknown): value is object => {
+  if (Array.isArray(value)) return true;
+
+  if (value === null || typeof value !== 'object') return false;
+
+  const proto = Object.getPrototypeOf(value);
+
+  return proto === Object.prototype || proto === null;
+};
+
+/**
+ * Freezes plain objects and arrays recursively. Frozen subtrees are skipped,
+ * so freezing a state that shares most of its tree with a frozen one only
+ * visits the new parts.
+ */
+export const deepFreeze = <T>(value: T): T => {
+  if (isFreezable(value) && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    Object.keys(value).forEach((key) =>
+      deepFreeze((value as Record<string, unknown>)[key])
+    );
+  }
+
+  return value;
+};
+
+export const createEntryInfo = (options: EntryOptions = {}): EntryInfo => ({
+  label: options.label,
+  timestamp: options.timestamp === undefined ? Date.now() : options.timestamp,
+  meta: options.meta,
+});
+
+/**
+ * Number of undo/redo steps to take. Non-numeric arguments (e.g. a click
+ * event when passed directly as a handler) count as a single step.
+ */
+export const clampSteps = (steps: unknown, available: number): number => {
+  const count =
+    typeof steps === 'number' && !isNaN(steps) ? Math.floor(steps) : 1;
+
+  return Math.max(0, Math.min(count, available));
+};
+
+/**
+ * Rough memory footprint of a value: strings count two bytes per character,
+ * numbers eight, and containers the sum of their keys and items.
+ */
+export const estimateByteSize = (value: unknown): number => {
+  const seen = new Set<object>();
+
+  const measure = (item: unknown): number => {
+    switch (typeof item) {
+      case 'string':
+        return item.length * 2;
+      case 'number':
+      case 'bigint':
+        return 8;
+      case 'boolean':
+        return 4;
+      case 'object':
+        break;
+      default:
+        return 0;
+    }
+
+    if (item === null || seen.has(item as object)) return 0;
+
+    seen.add(item as object);
+
+    if (item instanceof Date) return 8;
+
+    if (ArrayBuffer.isView(item)) return item.byteLength;
+
+    if (item instanceof ArrayBuffer) return item.byteLength;
+
+    let size = 0;
+
+    if (item instanceof Map) {
+      item.forEach((entry, key) => {
+        size += measure(key) + measure(entry);
+      });
+
+      return size;
+    }
+
+    if (item instanceof Set) {
+      item.forEach((entry) => {
+        size += measure(entry);
+      });
+
+      return size;
+    }
+
+    Object.keys(item as object).forEach((key) => {
+      size += key.length * 2 + measure((item as Record<string, unknown>)[key]);
+    });
+
+    return size;
+  };
+
+  return measure(value);
+};